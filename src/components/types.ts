@@ -1,9 +1,19 @@
 export enum AvailableComponentsEnum {
   PortraitVideo = "ShortVideo",
   LandscapeVideo = "LandscapeVideo",
+  SquareVideo = "SquareVideo",
+  FeedVideo = "FeedVideo",
+  Thumbnail = "Thumbnail",
 }
 export type OrientationConfig = {
   width: number;
   height: number;
   component: AvailableComponentsEnum;
+  /** Orientation filter for the Pexels search; results are cropped to fit */
+  pexelsOrientation: "portrait" | "landscape" | "square";
+};
+export type VideoLayout = {
+  captionLineMaxLength: number;
+  captionFontSize: string;
+  zoomDirection: "in" | "out";
 };
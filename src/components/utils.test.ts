@@ -0,0 +1,28 @@
+import { test, expect } from "vitest";
+
+import { createCaptionPages, textWidth } from "./utils";
+
+test("measures text by graphemes, with wide characters counted twice", () => {
+  expect(textWidth("hello")).toBe(5);
+  expect(textWidth("привет")).toBe(6);
+  // consonant + vowel sign is one grapheme: "नमस्ते" is 3 wide, not 6
+  expect(textWidth("नमस्ते")).toBe(3);
+  expect(textWidth("你好")).toBe(4);
+});
+
+test("splits captions of scripts without spaces into lines", () => {
+  const pages = createCaptionPages({
+    captions: [{ text: "我们今天去公园散步吧", startMs: 0, endMs: 1000 }],
+    lineMaxLength: 8,
+    lineCount: 1,
+    maxDistanceMs: 1000,
+  });
+
+  expect(pages.map((page) => page.lines.map((line) => line.texts.map((text) => text.text).join("")))).toEqual([
+    ["我们今天"],
+    ["去公园散"],
+    ["步吧"],
+  ]);
+  expect(pages[0].lines[0].texts[0]).toMatchObject({ startMs: 0, endMs: 400 });
+  expect(pages[2].lines[0].texts[0]).toMatchObject({ startMs: 800, endMs: 1000 });
+});
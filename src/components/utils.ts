@@ -6,7 +6,11 @@ import {
   type OrientationEnum,
   MusicVolumeEnum,
 } from "../types/shorts";
-import { AvailableComponentsEnum, type OrientationConfig } from "./types";
+import {
+  AvailableComponentsEnum,
+  type OrientationConfig,
+  type VideoLayout,
+} from "./types";
 
 export const shortVideoSchema = z.object({
   scenes: z.array(
@@ -36,7 +40,10 @@ export const shortVideoSchema = z.object({
       ])
       .optional(),
     captionBackgroundColor: z.string().optional(),
+    // highlight color of each dialogue speaker, overrides captionBackgroundColor
+    speakerColors: z.record(z.string(), z.string()).optional(),
     durationMs: z.number(),
+    fps: z.number().optional(),
     musicVolume: z.nativeEnum(MusicVolumeEnum).optional(),
   }),
   music: z.object({
@@ -47,6 +54,68 @@ export const shortVideoSchema = z.object({
   }),
 });
 
+export const thumbnailSchema = z.object({
+  image: z.string(),
+  title: z.string().optional(),
+  titleStyle: z.any().optional(),
+});
+
+// East Asian wide characters and emoji take about two Latin character widths
+const WIDE_CHARACTER =
+  /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]|\p{Extended_Pictographic}/u;
+
+const graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+function splitGraphemes(text: string): string[] {
+  return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Width of text in Latin characters. String length overcounts combining
+ * marks (Devanagari, Thai, Arabic vowels) and surrogate pairs, and
+ * undercounts CJK characters.
+ */
+export function textWidth(text: string): number {
+  return splitGraphemes(text).reduce((width, grapheme) => width + (WIDE_CHARACTER.test(grapheme) ? 2 : 1), 0);
+}
+
+/**
+ * Scripts written without spaces (Chinese, Japanese, Thai) come out of
+ * Whisper as one caption per phrase. Captions wider than a line are cut into
+ * line-sized pieces, with the timing shared by width.
+ */
+function splitWideCaption(caption: Caption, maxWidth: number): Caption[] {
+  const totalWidth = textWidth(caption.text);
+  if (totalWidth <= maxWidth) {
+    return [caption];
+  }
+
+  const pieces: string[] = [];
+  let piece = "";
+  for (const grapheme of splitGraphemes(caption.text.trim())) {
+    if (piece && textWidth(piece + grapheme) > maxWidth) {
+      pieces.push(piece);
+      piece = "";
+    }
+    piece += grapheme;
+  }
+  pieces.push(piece);
+
+  const durationMs = caption.endMs - caption.startMs;
+  const trimmedWidth = textWidth(caption.text.trim());
+  let offset = 0;
+  return pieces.map((text) => {
+    const startMs = caption.startMs + Math.round((durationMs * offset) / trimmedWidth);
+    offset += textWidth(text);
+    return {
+      ...caption,
+      text,
+      startMs,
+      endMs: caption.startMs + Math.round((durationMs * offset) / trimmedWidth),
+    };
+  });
+}
+
 export function createCaptionPages({
   captions,
   lineMaxLength,
@@ -58,6 +127,7 @@ export function createCaptionPages({
   lineCount: number;
   maxDistanceMs: number;
 }) {
+  captions = captions.flatMap((caption) => splitWideCaption(caption, lineMaxLength));
   const pages = [];
   let currentPage: CaptionPage = {
     startMs: 0,
@@ -69,8 +139,12 @@ export function createCaptionPages({
   };
 
   captions.forEach((caption, i) => {
-    // Check if we need to start a new page due to time gap
-    if (i > 0 && caption.startMs - currentPage.endMs > maxDistanceMs) {
+    // Check if we need to start a new page due to time gap or a new dialogue speaker
+    const previousSpeaker = i > 0 ? captions[i - 1].speaker : undefined;
+    if (
+      i > 0 &&
+      (caption.startMs - currentPage.endMs > maxDistanceMs || caption.speaker !== previousSpeaker)
+    ) {
       // Add current line if not empty
       if (currentLine.texts.length > 0) {
         currentPage.lines.push(currentLine);
@@ -94,7 +168,7 @@ export function createCaptionPages({
     const currentLineText = currentLine.texts.map((t) => t.text).join(" ");
     if (
       currentLine.texts.length > 0 &&
-      currentLineText.length + 1 + caption.text.length > lineMaxLength
+      textWidth(currentLineText) + 1 + textWidth(caption.text) > lineMaxLength
     ) {
       // Line is full, add it to current page
       currentPage.lines.push(currentLine);
@@ -120,6 +194,7 @@ export function createCaptionPages({
       text: caption.text,
       startMs: caption.startMs,
       endMs: caption.endMs,
+      ...(caption.speaker !== undefined && { speaker: caption.speaker }),
     });
 
     // Update page timing
@@ -148,17 +223,42 @@ export function getOrientationConfig(orientation: OrientationEnum) {
       width: 1080,
       height: 1920,
       component: AvailableComponentsEnum.PortraitVideo,
+      pexelsOrientation: "portrait",
     },
     landscape: {
       width: 1920,
       height: 1080,
       component: AvailableComponentsEnum.LandscapeVideo,
+      pexelsOrientation: "landscape",
+    },
+    square: {
+      width: 1080,
+      height: 1080,
+      component: AvailableComponentsEnum.SquareVideo,
+      pexelsOrientation: "square",
+    },
+    feed: {
+      width: 1080,
+      height: 1350,
+      component: AvailableComponentsEnum.FeedVideo,
+      pexelsOrientation: "portrait",
     },
   };
 
   return config[orientation];
 }
 
+/**
+ * Caption and Ken Burns settings by frame shape. Everything but landscape
+ * is 1080 px wide, so those share the portrait caption sizing.
+ */
+export function getVideoLayout(width: number, height: number): VideoLayout {
+  if (width > height) {
+    return { captionLineMaxLength: 30, captionFontSize: "8em", zoomDirection: "in" };
+  }
+  return { captionLineMaxLength: 20, captionFontSize: "6em", zoomDirection: "out" };
+}
+
 export function calculateVolume(
   level: MusicVolumeEnum = MusicVolumeEnum.high,
 ): [number, boolean] {
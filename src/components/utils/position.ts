@@ -2,7 +2,8 @@
  * Position Utility for Remotion Video Components
  *
  * Converts flexible position formats (percentages, aliases, pixels) to absolute pixel values.
- * Supports portrait (1080×1920) and landscape (1920×1080) orientations.
+ * Supports portrait (1080×1920), landscape (1920×1080), square (1080×1080)
+ * and feed (1080×1350) orientations.
  *
  * @example
  * // Using percentages
@@ -25,6 +26,9 @@
  * // → { x: 540, y: 200 }
  */
 
+import type { OrientationEnum } from "../../types/shorts";
+import { getOrientationConfig } from "../utils";
+
 /**
  * Position value types:
  * - number: Absolute pixels
@@ -182,15 +186,13 @@ export function resolvePositionValue(
 /**
  * Get video dimensions based on orientation
  *
- * @param orientation - Video orientation ("portrait" or "landscape")
+ * @param orientation - Video orientation
  * @returns Object with width and height
  */
-export function getVideoDimensions(orientation: "portrait" | "landscape"): {
+export function getVideoDimensions(orientation: OrientationEnum): {
   width: number;
   height: number;
 } {
-  if (orientation === "portrait") {
-    return { width: 1080, height: 1920 };
-  }
-  return { width: 1920, height: 1080 };
+  const { width, height } = getOrientationConfig(orientation);
+  return { width, height };
 }
@@ -0,0 +1,43 @@
+import { AbsoluteFill, Img } from "remotion";
+import { z } from "zod";
+import { loadFont as loadAnton } from "@remotion/google-fonts/Anton";
+
+import { thumbnailSchema } from "../utils";
+import { TextOverlay } from "../../remotion/compositions/TextOverlay";
+import { TextAnimationEnum } from "../../types/shorts";
+
+loadAnton();
+
+/**
+ * Single-frame composition: the chosen video frame with an optional title,
+ * rendered with renderStill
+ */
+export const Thumbnail: React.FC<z.infer<typeof thumbnailSchema>> = ({
+  image,
+  title,
+  titleStyle,
+}) => {
+  return (
+    <AbsoluteFill style={{ backgroundColor: "black" }}>
+      <Img
+        src={image}
+        style={{ width: "100%", height: "100%", objectFit: "cover" }}
+      />
+      {title && (
+        <TextOverlay
+          text={title}
+          position={{ x: "center", y: "15%" }}
+          style={{
+            fontSize: 96,
+            fontFamily: "Anton",
+            backgroundColor: "rgba(0, 0, 0, 0.5)",
+            padding: 24,
+            ...titleStyle,
+          }}
+          animation={TextAnimationEnum.none}
+          sceneDuration={1}
+        />
+      )}
+    </AbsoluteFill>
+  );
+};
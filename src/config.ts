@@ -3,27 +3,43 @@ import "dotenv/config";
 import fs from "fs-extra";
 import pino from "pino";
 import { kokoroModelPrecision, whisperModels } from "./types/shorts";
+import { jobLogMixin, jobLogStream } from "./short-creator/logging/jobLogContext";
 
 const defaultLogLevel: pino.Level = "info";
+const defaultJobLogLevel: pino.Level = "info";
 const defaultPort = 3123;
 const whisperVersion = "1.7.1";
 const defaultWhisperModel: whisperModels = "tiny.en"; // possible options: "tiny", "tiny.en", "base", "base.en", "small", "small.en", "medium", "medium.en", "large-v1", "large-v2", "large-v3", "large-v3-turbo"
 
-// Create the global logger
+// Create the global logger: stdout at LOG_LEVEL, plus the log file of the
+// running render job at JOB_LOG_LEVEL. The process logs at the lower of the
+// two, so a debug job log makes every logger call in the process run
 const versionNumber = process.env.npm_package_version;
-export const logger = pino({
-  level: process.env.LOG_LEVEL || defaultLogLevel,
-  timestamp: pino.stdTimeFunctions.isoTime,
-  formatters: {
-    level: (label) => {
-      return { level: label };
+const stdoutLogLevel = (process.env.LOG_LEVEL || defaultLogLevel) as pino.Level;
+const jobLogLevel = (process.env.JOB_LOG_LEVEL || defaultJobLogLevel) as pino.Level;
+export const logger = pino(
+  {
+    level:
+      pino.levels.values[jobLogLevel] < pino.levels.values[stdoutLogLevel]
+        ? jobLogLevel
+        : stdoutLogLevel,
+    timestamp: pino.stdTimeFunctions.isoTime,
+    formatters: {
+      level: (label) => {
+        return { level: label };
+      },
     },
+    base: {
+      pid: process.pid,
+      version: versionNumber,
+    },
+    mixin: jobLogMixin,
   },
-  base: {
-    pid: process.pid,
-    version: versionNumber,
-  },
-});
+  pino.multistream([
+    { level: stdoutLogLevel, stream: process.stdout },
+    { level: jobLogLevel, stream: jobLogStream },
+  ]),
+);
 
 export class Config {
   private dataDirPath: string;
@@ -37,6 +53,12 @@ export class Config {
   public tempDirPath: string;
   public cacheDirPath: string;
   public downloadsDirPath: string;
+  public jobsDirPath: string;
+  public batchesDirPath: string;
+  public thumbnailsDirPath: string;
+  public jobLogsDirPath: string;
+  public idempotencyKeysPath: string;
+  public lexiconPath: string;
   public packageDirPath: string;
   public musicDirPath: string;
   public pexelsApiKey: string;
@@ -47,12 +69,48 @@ export class Config {
   public devMode: boolean;
   public whisperVersion: string = whisperVersion;
   public whisperModel: whisperModels = defaultWhisperModel;
+  // used for speech that isn't English; by default whisperModel without ".en"
+  public whisperMultilingualModel: whisperModels;
   public kokoroModelPrecision: kokoroModelPrecision = "fp32";
 
   // docker-specific, performance-related settings to prevent memory issues
   public concurrency?: number;
   public videoCacheSizeInBytes: number | null = null;
 
+  // render worker pool: how many jobs run at once, and per-stage limits
+  public maxParallelJobs: number = 1;
+  public ttsConcurrency: number = 1;
+  public renderConcurrency: number = 1;
+
+  // base URL used in links sent to external systems (webhooks)
+  public publicUrl: string;
+  public webhookMaxAttempts: number = 5;
+  public webhookRetryDelayMs: number = 1000;
+
+  // how long an Idempotency-Key maps to the video it created
+  public idempotencyTtlMs: number = 24 * 60 * 60 * 1000;
+
+  // retention: finished videos are kept forever unless a limit is set
+  public retentionMaxAgeMs: number | null = null;
+  public retentionMaxBytes: number | null = null;
+  public retentionKeepPinned: boolean = true;
+  public retentionIntervalMs: number = 60 * 60 * 1000;
+  public tempFileMaxAgeMs: number = 24 * 60 * 60 * 1000;
+  public cacheMaxAgeMs: number = 7 * 24 * 60 * 60 * 1000;
+  // speech and caption cache, least recently used entries go first; 0 disables the limit
+  public cacheMaxBytes: number = 1024 * 1024 * 1024;
+
+  // text to speech: kokoro is built in, the others are enabled by their settings
+  public ttsProvider: string = "kokoro";
+  public ttsCliEngine: "piper" | "espeak-ng" | null = null;
+  public ttsCliPath?: string;
+  public piperVoicesDir?: string;
+  public openaiTtsBaseUrl: string | null = null;
+  public openaiTtsApiKey?: string;
+  public openaiTtsModel: string = "tts-1";
+  public openaiTtsVoices: string[] = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"];
+  public openaiTtsLanguages: string[] = ["en"];
+
   constructor() {
     // Project root directory
     this.packageDirPath = path.join(__dirname, "..");
@@ -76,6 +134,12 @@ export class Config {
     this.videosDirPath = path.join(this.workspaceDirPath, "renders");
     this.cacheDirPath = path.join(this.workspaceDirPath, "cache");
     this.downloadsDirPath = path.join(this.workspaceDirPath, "downloads");
+    this.jobsDirPath = path.join(this.workspaceDirPath, "jobs");
+    this.batchesDirPath = path.join(this.workspaceDirPath, "batches");
+    this.thumbnailsDirPath = path.join(this.workspaceDirPath, "thumbnails");
+    this.jobLogsDirPath = path.join(this.workspaceDirPath, "job-logs");
+    this.idempotencyKeysPath = path.join(this.workspaceDirPath, "idempotency-keys.json");
+    this.lexiconPath = path.join(this.workspaceDirPath, "lexicon.json");
 
     // Ensure all directories exist
     fs.ensureDirSync(this.dataDirPath);
@@ -85,6 +149,10 @@ export class Config {
     fs.ensureDirSync(this.videosDirPath);
     fs.ensureDirSync(this.cacheDirPath);
     fs.ensureDirSync(this.downloadsDirPath);
+    fs.ensureDirSync(this.jobsDirPath);
+    fs.ensureDirSync(this.batchesDirPath);
+    fs.ensureDirSync(this.thumbnailsDirPath);
+    fs.ensureDirSync(this.jobLogsDirPath);
 
     // Static files (music, effects)
     this.staticDirPath = path.join(this.packageDirPath, "static");
@@ -100,6 +168,9 @@ export class Config {
     if (process.env.WHISPER_MODEL) {
       this.whisperModel = process.env.WHISPER_MODEL as whisperModels;
     }
+    this.whisperMultilingualModel =
+      (process.env.WHISPER_MULTILINGUAL_MODEL as whisperModels | undefined) ||
+      (this.whisperModel.replace(/\.en$/, "") as whisperModels);
     if (process.env.KOKORO_MODEL_PRECISION) {
       this.kokoroModelPrecision = process.env
         .KOKORO_MODEL_PRECISION as kokoroModelPrecision;
@@ -114,6 +185,69 @@ export class Config {
         process.env.VIDEO_CACHE_SIZE_IN_BYTES,
       );
     }
+
+    if (process.env.MAX_PARALLEL_JOBS) {
+      this.maxParallelJobs = Math.max(1, parseInt(process.env.MAX_PARALLEL_JOBS));
+    }
+    if (process.env.TTS_CONCURRENCY) {
+      this.ttsConcurrency = Math.max(1, parseInt(process.env.TTS_CONCURRENCY));
+    }
+    if (process.env.RENDER_CONCURRENCY) {
+      this.renderConcurrency = Math.max(1, parseInt(process.env.RENDER_CONCURRENCY));
+    }
+
+    this.publicUrl = (process.env.PUBLIC_URL || `http://localhost:${this.port}`).replace(/\/+$/, "");
+    if (process.env.WEBHOOK_MAX_ATTEMPTS) {
+      this.webhookMaxAttempts = Math.max(1, parseInt(process.env.WEBHOOK_MAX_ATTEMPTS));
+    }
+    if (process.env.WEBHOOK_RETRY_DELAY_MS) {
+      this.webhookRetryDelayMs = parseInt(process.env.WEBHOOK_RETRY_DELAY_MS);
+    }
+    if (process.env.IDEMPOTENCY_TTL_HOURS) {
+      this.idempotencyTtlMs = parseFloat(process.env.IDEMPOTENCY_TTL_HOURS) * 60 * 60 * 1000;
+    }
+
+    if (process.env.RETENTION_MAX_AGE_DAYS) {
+      this.retentionMaxAgeMs = parseFloat(process.env.RETENTION_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+    }
+    if (process.env.RETENTION_MAX_BYTES) {
+      this.retentionMaxBytes = parseInt(process.env.RETENTION_MAX_BYTES);
+    }
+    this.retentionKeepPinned = process.env.RETENTION_KEEP_PINNED !== "false";
+    if (process.env.RETENTION_INTERVAL_MINUTES) {
+      this.retentionIntervalMs = parseFloat(process.env.RETENTION_INTERVAL_MINUTES) * 60 * 1000;
+    }
+    if (process.env.TEMP_FILE_MAX_AGE_HOURS) {
+      this.tempFileMaxAgeMs = parseFloat(process.env.TEMP_FILE_MAX_AGE_HOURS) * 60 * 60 * 1000;
+    }
+    if (process.env.CACHE_MAX_AGE_DAYS) {
+      this.cacheMaxAgeMs = parseFloat(process.env.CACHE_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000;
+    }
+    if (process.env.CACHE_MAX_SIZE_MB) {
+      this.cacheMaxBytes = parseFloat(process.env.CACHE_MAX_SIZE_MB) * 1024 * 1024;
+    }
+
+    if (process.env.TTS_PROVIDER) {
+      this.ttsProvider = process.env.TTS_PROVIDER;
+    }
+    if (process.env.TTS_CLI_ENGINE) {
+      this.ttsCliEngine = process.env.TTS_CLI_ENGINE as "piper" | "espeak-ng";
+    }
+    this.ttsCliPath = process.env.TTS_CLI_PATH;
+    this.piperVoicesDir = process.env.PIPER_VOICES_DIR;
+    if (process.env.OPENAI_TTS_BASE_URL) {
+      this.openaiTtsBaseUrl = process.env.OPENAI_TTS_BASE_URL;
+    }
+    this.openaiTtsApiKey = process.env.OPENAI_TTS_API_KEY;
+    if (process.env.OPENAI_TTS_MODEL) {
+      this.openaiTtsModel = process.env.OPENAI_TTS_MODEL;
+    }
+    if (process.env.OPENAI_TTS_VOICES) {
+      this.openaiTtsVoices = process.env.OPENAI_TTS_VOICES.split(",").map((voice) => voice.trim()).filter(Boolean);
+    }
+    if (process.env.OPENAI_TTS_LANGUAGES) {
+      this.openaiTtsLanguages = process.env.OPENAI_TTS_LANGUAGES.split(",").map((code) => code.trim()).filter(Boolean);
+    }
   }
 
   public getStaticDirPath(): string {
@@ -3,6 +3,7 @@ import path from "path";
 import fs from "fs-extra";
 
 import { Kokoro } from "./short-creator/libraries/Kokoro";
+import { TtsRegistry } from "./short-creator/tts/TtsRegistry";
 import { Remotion } from "./short-creator/libraries/Remotion";
 import { Whisper } from "./short-creator/libraries/Whisper";
 import { FFMpeg } from "./short-creator/libraries/FFmpeg";
@@ -83,6 +84,8 @@ async function main() {
   const remotion = await Remotion.init(config);
   logger.debug("initializing kokoro");
   const kokoro = await Kokoro.init(config.kokoroModelPrecision);
+  logger.debug("initializing tts providers");
+  const tts = await TtsRegistry.init(config, kokoro);
   logger.debug("initializing whisper");
   const whisper = await Whisper.init(config);
   logger.debug("initializing ffmpeg");
@@ -93,7 +96,7 @@ async function main() {
   const shortCreator = new ShortCreator(
     config,
     remotion,
-    kokoro,
+    tts,
     whisper,
     ffmpeg,
     pexelsApi,
@@ -103,7 +106,7 @@ async function main() {
 
   // Initialize ProcessMonitor
   logger.debug("initializing process monitor");
-  processMonitor = new ProcessMonitor(shortCreator, alertManager);
+  processMonitor = new ProcessMonitor(shortCreator, alertManager, config.maxParallelJobs);
   processMonitor.start();
 
   // Connect ProcessMonitor to ShortCreator
@@ -171,6 +174,11 @@ async function main() {
   const server = new Server(config, shortCreator, videoAnalyzer, healthChecker);
   server.start();
 
+  // Resume jobs that were queued or rendering before the last shutdown.
+  // Must run after the server is up: Remotion fetches scene assets over HTTP.
+  shortCreator.restoreQueue();
+  shortCreator.startRetention();
+
   // Send notification that server started successfully
   await alertManager.sendServerStarted();
   logger.info('Server started successfully with monitoring enabled');
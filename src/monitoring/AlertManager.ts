@@ -3,6 +3,7 @@ import { logger } from '../logger';
 import os from 'os';
 import type { AlertConfig, AlertData, AlertType } from './types';
 import { NotificationManager, type NotificationType } from './NotificationManager';
+import { MenuBuilder } from './MenuBuilder';
 
 /**
  * AlertManager - система уведомлений о критических событиях
@@ -68,7 +69,10 @@ export class AlertManager {
 
     try {
       const message = this.formatAlertMessage(data);
-      await this.bot.sendMessage(this.chatId, message, { parse_mode: 'Markdown' });
+      await this.bot.sendMessage(this.chatId, message, {
+        parse_mode: 'Markdown',
+        reply_markup: data.replyMarkup,
+      });
 
       this.lastAlertTime.set(alertKey, Date.now());
       logger.info({ type: data.type, message: data.message, notificationType }, 'Alert sent successfully');
@@ -287,6 +291,7 @@ export class AlertManager {
         'ID видео': videoId,
         'Количество сцен': `${scenesCount} сцен${scenesCount === 1 ? 'а' : scenesCount < 5 ? 'ы' : ''}`,
       },
+      replyMarkup: MenuBuilder.buildVideoActionsMenu(videoId),
     }, 'video_request');
   }
 
@@ -323,6 +328,7 @@ export class AlertManager {
         'ID видео': videoId,
         'Количество сцен': `${scenesCount} сцен${scenesCount === 1 ? 'а' : scenesCount < 5 ? 'ы' : ''}`,
       },
+      replyMarkup: MenuBuilder.buildErrorActionsMenu(videoId),
     }, 'video_failed');
   }
 }
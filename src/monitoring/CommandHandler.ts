@@ -226,16 +226,17 @@ export class CommandHandler {
       return `❌ Процесс с ID \`${videoId}\` не найден!\n\nИспользуйте \`/processes\` для списка активных процессов.`;
     }
 
-    // Mark process as failed and remove from monitoring
-    this.processMonitor.updateProcess(videoId, process.progress, 'Killed by user', 'failed');
-    this.processMonitor.removeProcess(videoId);
+    // Abort the render; ShortCreator cleans up temp files and removes it from monitoring
+    const result = this.shortCreator.cancel(videoId);
+    if (result !== 'cancelled') {
+      this.processMonitor.removeProcess(videoId);
+    }
 
     logger.warn({ videoId }, 'Process killed by Telegram command');
 
     return `✅ Процесс \`${videoId}\` остановлен!\n\n` +
       `• Был на стадии: ${process.stage}\n` +
-      `• Прогресс: ${process.progress}%\n\n` +
-      `⚠️ *Внимание:* Временные файлы могут остаться на диске.`;
+      `• Прогресс: ${process.progress}%`;
   }
 
   /**
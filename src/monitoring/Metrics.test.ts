@@ -0,0 +1,44 @@
+import { test, expect } from 'vitest';
+
+import { MetricsRegistry } from './Metrics';
+
+test('renders counters, gauges and histograms in Prometheus text format', () => {
+  const registry = new MetricsRegistry();
+  const jobs = registry.counter('jobs_total', 'Jobs by outcome');
+  const queue = registry.gauge('queue_depth', 'Queued jobs');
+  const stages = registry.histogram('stage_seconds', 'Stage durations', [1, 5]);
+
+  jobs.inc({ outcome: 'ready' });
+  jobs.inc({ outcome: 'ready' });
+  jobs.inc({ outcome: 'failed' });
+  queue.set({}, 3);
+  stages.observe({ stage: 'tts' }, 0.5);
+  stages.observe({ stage: 'tts' }, 4);
+  stages.observe({ stage: 'tts' }, 9);
+
+  expect(registry.render()).toBe(
+    [
+      '# HELP jobs_total Jobs by outcome',
+      '# TYPE jobs_total counter',
+      'jobs_total{outcome="ready"} 2',
+      'jobs_total{outcome="failed"} 1',
+      '# HELP queue_depth Queued jobs',
+      '# TYPE queue_depth gauge',
+      'queue_depth 3',
+      '# HELP stage_seconds Stage durations',
+      '# TYPE stage_seconds histogram',
+      'stage_seconds_bucket{stage="tts",le="1"} 1',
+      'stage_seconds_bucket{stage="tts",le="5"} 2',
+      'stage_seconds_bucket{stage="tts",le="+Inf"} 3',
+      'stage_seconds_sum{stage="tts"} 13.5',
+      'stage_seconds_count{stage="tts"} 3',
+    ].join('\n') + '\n',
+  );
+});
+
+test('escapes label values', () => {
+  const registry = new MetricsRegistry();
+  registry.counter('errors_total', 'Errors').inc({ reason: 'say "hi"\n' });
+
+  expect(registry.render()).toContain('errors_total{reason="say \\"hi\\"\\n"} 1');
+});
@@ -0,0 +1,194 @@
+/**
+ * Metrics - счётчики, gauges и гистограммы в текстовом формате Prometheus
+ *
+ * Модуль держит один общий реестр (`metrics`), куда пишут ShortCreator,
+ * PexelsAPI и т.д.; `GET /metrics` отдаёт `metrics.render()`.
+ * Значения gauges, которые дёшево посчитать на лету (очередь, диск),
+ * выставляются прямо перед рендером.
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Ключ серии: метки, отсортированные по имени
+ */
+function labelsKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`)
+    .join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function seriesName(name: string, key: string): string {
+  return key ? `${name}{${key}}` : name;
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelsKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelsKey(labels)) ?? 0;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${seriesName(this.name, key)} ${value}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelsKey(labels), value);
+  }
+
+  /**
+   * Убрать все серии - перед тем как выставить набор меток заново
+   */
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${seriesName(this.name, key)} ${value}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, private buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelsKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const withLe = (le: string) => (key ? `${key},le="${le}"` : `le="${le}"`);
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket{${withLe(String(bound))}} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket{${withLe('+Inf')}} ${series.count}`);
+      lines.push(`${seriesName(`${this.name}_sum`, key)} ${series.sum}`);
+      lines.push(`${seriesName(`${this.name}_count`, key)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Все метрики в текстовом формате Prometheus (version 0.0.4)
+   */
+  render(): string {
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+export const queueDepthGauge = metrics.gauge(
+  'shortvideo_queue_depth',
+  'Videos waiting in the render queue',
+);
+export const runningJobsGauge = metrics.gauge(
+  'shortvideo_jobs_running',
+  'Videos being rendered right now',
+);
+export const jobsTotal = metrics.counter(
+  'shortvideo_jobs_total',
+  'Finished render jobs by outcome (ready, failed, cancelled)',
+);
+export const stageDurationHistogram = metrics.histogram(
+  'shortvideo_stage_duration_seconds',
+  'Time a successful job spent in each pipeline stage (tts, captions, media, render, effects)',
+  [1, 2, 5, 10, 20, 30, 60, 120, 300, 600, 1200],
+);
+export const pexelsRequestsTotal = metrics.counter(
+  'pexels_api_requests_total',
+  'Search requests sent to the Pexels API',
+);
+export const pexelsErrorsTotal = metrics.counter(
+  'pexels_api_errors_total',
+  'Failed Pexels API requests by reason (HTTP status, timeout, network)',
+);
+export const videoAnalyzerJobsGauge = metrics.gauge(
+  'video_analyzer_jobs',
+  'Video analyzer jobs known to the server by status',
+);
+export const diskUsageGauge = metrics.gauge(
+  'workspace_disk_usage_bytes',
+  'Size of the workspace directories',
+);
+export const diskFreeGauge = metrics.gauge(
+  'workspace_disk_free_bytes',
+  'Free space on the workspace volume',
+);
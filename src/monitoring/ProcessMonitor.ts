@@ -32,6 +32,7 @@ export class ProcessMonitor {
   constructor(
     private shortCreator: ShortCreator,
     private alertManager?: AlertManager,
+    private maxParallelJobs: number = 1,
   ) {}
 
   /**
@@ -140,12 +141,13 @@ export class ProcessMonitor {
    */
   private checkProcesses(): void {
     const activeProcesses = this.getActiveProcesses();
+    const renderingProcesses = activeProcesses.filter(p => p.status === 'processing');
 
-    // Алерт если два или более процесса одновременно
-    if (activeProcesses.length >= 2) {
+    // Алерт если одновременно рендерится больше видео, чем разрешено пулом воркеров
+    if (renderingProcesses.length > this.maxParallelJobs) {
       const now = Date.now();
       if (now - this.lastDualProcessAlert > this.ALERT_COOLDOWN_MS) {
-        this.sendDualProcessAlert(activeProcesses);
+        this.sendDualProcessAlert(renderingProcesses);
         this.lastDualProcessAlert = now;
       }
     }
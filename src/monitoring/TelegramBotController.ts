@@ -35,6 +35,7 @@ export class TelegramBotController {
   private terminalManager: TerminalManager;
   private confirmationManager: ConfirmationManager;
   private processMonitor: ProcessMonitor;
+  private shortCreator: ShortCreator;
   private healthChecker?: HealthChecker;
   private alertManager?: AlertManager;
   private config: BotConfig;
@@ -67,6 +68,7 @@ export class TelegramBotController {
     this.terminalManager = new TerminalManager();
     this.confirmationManager = new ConfirmationManager();
     this.processMonitor = processMonitor;
+    this.shortCreator = shortCreator;
     this.healthChecker = healthChecker;
     this.alertManager = alertManager;
 
@@ -378,6 +380,18 @@ export class TelegramBotController {
       return;
     }
 
+    // Handle video actions (buttons under the "new video request" alert)
+    if (category === 'video') {
+      await this.handleVideoAction(chatId, action, params[0], queryId);
+      return;
+    }
+
+    // Handle error actions (buttons under the "video failed" alert)
+    if (category === 'error') {
+      await this.handleErrorAction(chatId, action, params[0], queryId);
+      return;
+    }
+
     // Handle command execution
     if (category === 'cmd') {
       const commandId = action;
@@ -394,6 +408,158 @@ export class TelegramBotController {
     }
   }
 
+  /**
+   * Обработать действия с видео (статус, скачивание, отмена)
+   */
+  private async handleVideoAction(
+    chatId: number,
+    action: string,
+    videoId: string | undefined,
+    queryId: string | undefined,
+  ): Promise<void> {
+    if (!videoId) {
+      if (queryId) {
+        await this.bot.answerCallbackQuery(queryId, { text: '❌ Не указан ID видео', show_alert: true });
+      }
+      return;
+    }
+
+    const statusInfo = this.shortCreator.status(videoId);
+    if (!statusInfo) {
+      if (queryId) {
+        await this.bot.answerCallbackQuery(queryId, { text: `❌ Видео ${videoId} не найдено`, show_alert: true });
+      }
+      return;
+    }
+
+    switch (action) {
+      case 'status': {
+        const { status, progress, stage } = statusInfo;
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, {
+            text: `${status} ${progress ?? 0}%${stage ? ` — ${stage}` : ''}`,
+            show_alert: true,
+          });
+        }
+        return;
+      }
+
+      case 'download': {
+        const { status } = statusInfo;
+        if (status !== 'ready') {
+          if (queryId) {
+            await this.bot.answerCallbackQuery(queryId, { text: `⏳ Видео ещё не готово (${status})`, show_alert: true });
+          }
+          return;
+        }
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: '📥 Отправляю видео...' });
+        }
+        await this.bot.sendVideo(chatId, this.shortCreator.getVideoPath(videoId));
+        return;
+      }
+
+      case 'cancel': {
+        const result = this.shortCreator.cancel(videoId);
+        const text = result === 'cancelled'
+          ? `🛑 Видео \`${videoId}\` отменено`
+          : result === 'not_found'
+            ? `❌ Видео \`${videoId}\` не найдено`
+            : `ℹ️ Видео \`${videoId}\` уже не в очереди`;
+        logger.info({ videoId, result }, 'Video cancel requested from Telegram');
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: result === 'cancelled' ? '🛑 Отменено' : '❌ Нельзя отменить' });
+        }
+        // reply separately so the original alert with its details stays intact
+        await this.updateOrSendMessage(chatId, undefined, text);
+        return;
+      }
+
+      default:
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: '❌ Неизвестное действие', show_alert: true });
+        }
+    }
+  }
+
+  /**
+   * Обработать действия под уведомлением об ошибке видео (повтор, логи, очистка)
+   */
+  private async handleErrorAction(
+    chatId: number,
+    action: string,
+    videoId: string | undefined,
+    queryId: string | undefined,
+  ): Promise<void> {
+    if (!videoId) {
+      if (queryId) {
+        await this.bot.answerCallbackQuery(queryId, { text: '❌ Не указан ID видео', show_alert: true });
+      }
+      return;
+    }
+
+    switch (action) {
+      case 'retry': {
+        // the stored input of the failed job is queued again as a new video
+        const input = this.shortCreator.getDetails(videoId)?.input;
+        if (!input) {
+          if (queryId) {
+            await this.bot.answerCallbackQuery(queryId, { text: `❌ Данные видео ${videoId} не найдены`, show_alert: true });
+          }
+          return;
+        }
+        let newVideoId: string;
+        try {
+          newVideoId = this.shortCreator.addToQueue(input.sceneInput, input.config);
+        } catch (error) {
+          logger.warn({ videoId, error }, 'Video retry from Telegram failed');
+          if (queryId) {
+            await this.bot.answerCallbackQuery(queryId, { text: '❌ Не удалось поставить в очередь', show_alert: true });
+          }
+          return;
+        }
+        logger.info({ videoId, newVideoId }, 'Video retry requested from Telegram');
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: '🔄 Поставлено в очередь' });
+        }
+        await this.updateOrSendMessage(chatId, undefined, `🔄 Видео \`${videoId}\` поставлено в очередь заново как \`${newVideoId}\``);
+        return;
+      }
+
+      case 'logs': {
+        const logPath = this.shortCreator.getJobLogPath(videoId);
+        if (!logPath) {
+          if (queryId) {
+            await this.bot.answerCallbackQuery(queryId, { text: `❌ Логи видео ${videoId} не найдены`, show_alert: true });
+          }
+          return;
+        }
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: '📝 Отправляю логи...' });
+        }
+        await this.bot.sendDocument(chatId, logPath, { caption: `📝 Логи видео ${videoId}` });
+        return;
+      }
+
+      case 'clear': {
+        const result = this.shortCreator.deleteVideo(videoId);
+        logger.info({ videoId, result }, 'Video clear requested from Telegram');
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, {
+            text: result === 'deleted' ? '🗑️ Очищено' : '❌ Видео в очереди, сначала отмените его',
+            show_alert: result !== 'deleted',
+          });
+        }
+        return;
+      }
+
+      default:
+        if (queryId) {
+          await this.bot.answerCallbackQuery(queryId, { text: '❌ Неизвестное действие', show_alert: true });
+        }
+    }
+  }
+
   /**
    * Показать экран по имени
    */
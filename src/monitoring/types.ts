@@ -1,3 +1,5 @@
+import type TelegramBot from 'node-telegram-bot-api';
+
 /**
  * Типы для модуля мониторинга и уведомлений
  */
@@ -17,6 +19,7 @@ export interface AlertData {
   message: string;
   error?: Error;
   context?: Record<string, unknown>;
+  replyMarkup?: TelegramBot.InlineKeyboardMarkup;
 }
 
 export interface HealthCheckResult {
@@ -32,12 +32,23 @@ export class MCPRouter {
   private setupMCPServer() {
     this.mcpServer.tool(
       "get-video-status",
-      "Get the status of a video (ready, processing, failed) with progress and current stage",
+      "Get the status of a video (ready, processing, failed, cancelled) with progress and current stage",
       {
         videoId: z.string().describe("The ID of the video"),
       },
       async ({ videoId }) => {
         const statusInfo = this.shortCreator.status(videoId);
+        if (!statusInfo) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Video ${videoId} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
         return {
           content: [
             {
@@ -55,9 +66,30 @@ export class MCPRouter {
       {
         scenes: z.array(sceneInput).describe("Each scene to be created"),
         config: renderConfig.describe("Configuration for rendering the video"),
+        idempotencyKey: z
+          .string()
+          .optional()
+          .describe(
+            "Optional unique key for this request. Retrying with the same key and input returns the original video ID instead of rendering again",
+          ),
       },
-      async ({ scenes, config }) => {
-        const videoId = await this.shortCreator.addToQueue(scenes, config);
+      async ({ scenes, config, idempotencyKey }) => {
+        let videoId: string;
+        try {
+          videoId = idempotencyKey
+            ? this.shortCreator.addToQueueIdempotent(idempotencyKey, scenes, config).videoId
+            : this.shortCreator.addToQueue(scenes, config);
+        } catch (error: unknown) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: error instanceof Error ? error.message : String(error),
+              },
+            ],
+            isError: true,
+          };
+        }
 
         return {
           content: [
@@ -69,6 +101,124 @@ export class MCPRouter {
         };
       },
     );
+
+    this.mcpServer.tool(
+      "wait-for-video",
+      "Wait until a video is ready, failed or cancelled, and return its final status. Sends progress notifications while rendering when the client passes a progress token.",
+      {
+        videoId: z.string().describe("The ID of the video"),
+        timeoutSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(3600)
+          .optional()
+          .describe("How long to wait before returning the current status, default is 600"),
+      },
+      async ({ videoId, timeoutSeconds }, extra) => {
+        // same status stream that feeds GET /api/short-video/:id/events
+        const progressToken = extra._meta?.progressToken;
+        const unsubscribe =
+          progressToken !== undefined
+            ? this.shortCreator.subscribeToStatus(videoId, (status) => {
+                extra
+                  .sendNotification({
+                    method: "notifications/progress",
+                    params: {
+                      progressToken,
+                      progress: status.progress ?? 0,
+                      total: 100,
+                      message: status.stage,
+                    },
+                  })
+                  .catch((error) => {
+                    logger.debug({ error }, "Failed to send MCP progress notification");
+                  });
+              })
+            : undefined;
+
+        try {
+          const statusInfo = await this.shortCreator.waitForCompletion(
+            videoId,
+            (timeoutSeconds ?? 600) * 1000,
+          );
+          if (!statusInfo) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Video ${videoId} not found`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(statusInfo, null, 2),
+              },
+            ],
+          };
+        } finally {
+          unsubscribe?.();
+        }
+      },
+    );
+
+    this.mcpServer.tool(
+      "cancel-short-video",
+      "Cancel a queued or in-progress video",
+      {
+        videoId: z.string().describe("The ID of the video"),
+      },
+      async ({ videoId }) => {
+        const result = this.shortCreator.cancel(videoId);
+        const text =
+          result === "cancelled"
+            ? `Video ${videoId} cancelled`
+            : result === "not_found"
+              ? `Video ${videoId} not found`
+              : `Video ${videoId} is no longer queued or processing`;
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+          isError: result !== "cancelled",
+        };
+      },
+    );
+
+    this.mcpServer.tool(
+      "promote-short-video",
+      "Re-render a draft quality video at full quality, reusing its audio and captions",
+      {
+        videoId: z.string().describe("The ID of the draft video"),
+      },
+      async ({ videoId }) => {
+        const result = this.shortCreator.promote(videoId);
+        const messages = {
+          queued: `Video ${videoId} queued for full quality render`,
+          not_found: `Video ${videoId} not found`,
+          not_draft: `Video ${videoId} is not a finished draft`,
+          busy: `Video ${videoId} is already queued`,
+          expired: `Draft assets of video ${videoId} are no longer available`,
+        };
+        return {
+          content: [
+            {
+              type: "text",
+              text: messages[result],
+            },
+          ],
+          isError: result !== "queued",
+        };
+      },
+    );
   }
 
   private setupRoutes() {
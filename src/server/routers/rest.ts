@@ -6,11 +6,16 @@ import type {
 import cors from "cors";
 import fs from "fs-extra";
 import path from "path";
+import archiver from "archiver";
 
-import { validateCreateShortInput } from "../validator";
+import { validateCreateShortInput, validateLexicon } from "../validator";
+import { IdempotencyConflictError } from "../../short-creator/queue/IdempotencyStore";
+import { getVideoMimeType } from "../../short-creator/output/OutputSettings";
+import type { CreateShortInput } from "../../types/shorts";
 import { ShortCreator } from "../../short-creator/ShortCreator";
 import { logger } from "../../logger";
 import { Config } from "../../config";
+import type { VideoStatusInfo } from "../../types/shorts";
 
 // todo abstract class
 export class APIRouter {
@@ -44,7 +49,21 @@ export class APIRouter {
         try {
           const input = validateCreateShortInput(req.body);
 
-          logger.info({ input }, "Creating short video");
+          logger.info({ sceneCount: input.scenes.length }, "Creating short video");
+
+          const idempotencyKey = req.get("Idempotency-Key");
+          if (idempotencyKey) {
+            const { videoId, replayed } = this.shortCreator.addToQueueIdempotent(
+              idempotencyKey,
+              input.scenes,
+              input.config,
+            );
+            res.setHeader("Idempotent-Replayed", String(replayed));
+            res.status(replayed ? 200 : 201).json({
+              videoId,
+            });
+            return;
+          }
 
           const videoId = this.shortCreator.addToQueue(
             input.scenes,
@@ -55,6 +74,15 @@ export class APIRouter {
             videoId,
           });
         } catch (error: unknown) {
+          if (error instanceof IdempotencyConflictError) {
+            res.status(409).json({
+              error: "Idempotency-Key reused with a different request",
+              message: error.message,
+              videoId: error.videoId,
+            });
+            return;
+          }
+
           logger.error(error, "Error validating input");
 
           // Handle validation errors specifically
@@ -81,6 +109,131 @@ export class APIRouter {
       },
     );
 
+    // Dry run: validates the input and returns a render plan, nothing is queued.
+    // ?synthesize=true runs TTS for exact scene lengths instead of estimating.
+    this.router.post(
+      "/short-video/plan",
+      async (req: ExpressRequest, res: ExpressResponse) => {
+        let input: CreateShortInput;
+        try {
+          input = validateCreateShortInput(req.body);
+        } catch (error: unknown) {
+          res.status(400).json({
+            error: "Validation failed",
+            ...this.parseValidationError(error),
+          });
+          return;
+        }
+
+        try {
+          const plan = await this.shortCreator.plan(input.scenes, input.config, {
+            synthesize: req.query.synthesize === "true",
+          });
+          res.status(200).json(plan);
+        } catch (error: unknown) {
+          logger.error(error, "Error creating render plan");
+          res.status(500).json({
+            error: "Failed to create render plan",
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+      },
+    );
+
+    // Accepts either an array of createShortInput items or { items: [...] }.
+    // Nothing is queued unless every item is valid.
+    this.router.post(
+      "/short-video/batch",
+      async (req: ExpressRequest, res: ExpressResponse) => {
+        const items: unknown = Array.isArray(req.body) ? req.body : req.body?.items;
+        if (!Array.isArray(items) || items.length === 0) {
+          res.status(400).json({
+            error: "Invalid input",
+            message: "Expected a non-empty array of videos (or { items: [...] })",
+          });
+          return;
+        }
+
+        const inputs: CreateShortInput[] = [];
+        for (let index = 0; index < items.length; index++) {
+          try {
+            inputs.push(validateCreateShortInput(items[index]));
+          } catch (error: unknown) {
+            res.status(400).json({
+              error: "Validation failed",
+              index,
+              ...this.parseValidationError(error),
+            });
+            return;
+          }
+        }
+
+        logger.info({ itemCount: inputs.length }, "Creating batch of short videos");
+        try {
+          const batch = this.shortCreator.addBatchToQueue(inputs);
+          res.status(201).json(batch);
+        } catch (error: unknown) {
+          logger.error(error, "Error creating batch of short videos");
+          res.status(400).json({
+            error: "Validation failed",
+            ...this.parseValidationError(error),
+          });
+        }
+      },
+    );
+
+    this.router.get(
+      "/batch/:batchId",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const batch = this.shortCreator.getBatchStatus(req.params.batchId);
+        if (!batch) {
+          res.status(404).json({ error: "Batch not found" });
+          return;
+        }
+        res.status(200).json(batch);
+      },
+    );
+
+    // Zip of every finished video in the batch, streamed as it is built
+    this.router.get(
+      "/batch/:batchId/download",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { batchId } = req.params;
+        const batch = this.shortCreator.getBatchStatus(batchId);
+        if (!batch) {
+          res.status(404).json({ error: "Batch not found" });
+          return;
+        }
+        const readyVideos = batch.videos.filter((video) => video.status === "ready");
+        if (readyVideos.length === 0) {
+          res.status(404).json({ error: "No finished videos in this batch yet" });
+          return;
+        }
+
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename=batch-${batchId}.zip`);
+
+        // videos are already compressed, store them as-is
+        const archive = archiver("zip", { store: true });
+        archive.on("error", (error) => {
+          logger.error({ error, batchId }, "Error creating batch zip");
+          res.destroy(error);
+        });
+        archive.pipe(res);
+        for (const video of readyVideos) {
+          const outputs = this.shortCreator.getVideoOutputs(video.videoId);
+          // videos without job records only have the primary file
+          const videoPaths = outputs.length
+            ? outputs.map((output) => output.path)
+            : [this.shortCreator.getVideoPath(video.videoId)];
+          for (const videoPath of videoPaths) {
+            archive.file(videoPath, { name: path.basename(videoPath) });
+          }
+        }
+        archive.finalize();
+      },
+    );
+
     // Effects library API
     this.router.get(
       "/effects",
@@ -175,10 +328,189 @@ export class APIRouter {
           return;
         }
         const statusInfo = this.shortCreator.status(videoId);
+        if (!statusInfo) {
+          res.status(404).json({ error: "Video not found" });
+          return;
+        }
         res.status(200).json(statusInfo);
       },
     );
 
+    // Server-Sent Events: "progress" while rendering, then one final
+    // "ready" / "failed" / "cancelled" event before the stream closes
+    this.router.get(
+      "/short-video/:videoId/events",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        const current = this.shortCreator.status(videoId);
+        if (!current) {
+          res.status(404).json({ error: "Video not found" });
+          return;
+        }
+
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+
+        let closed = false;
+        const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+        const close = () => {
+          if (closed) {
+            return;
+          }
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          res.end();
+        };
+        const send = (status: VideoStatusInfo) => {
+          if (closed) {
+            return;
+          }
+          const event = status.status === "processing" ? "progress" : status.status;
+          res.write(`event: ${event}\ndata: ${JSON.stringify({ videoId, ...status })}\n\n`);
+          if (status.status !== "processing") {
+            close();
+          }
+        };
+
+        const unsubscribe = this.shortCreator.subscribeToStatus(videoId, send);
+        req.on("close", close);
+        send(current);
+      },
+    );
+
+    this.router.get(
+      "/short-video/:videoId/details",
+      async (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const details = this.shortCreator.getDetails(videoId);
+        if (!details) {
+          res.status(404).json({ error: "Video not found" });
+          return;
+        }
+        res.status(200).json(details);
+      },
+    );
+
+    this.router.post(
+      "/short-video/:videoId/cancel",
+      async (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const result = this.shortCreator.cancel(videoId);
+        if (result === "not_found") {
+          res.status(404).json({ error: "Video not found" });
+          return;
+        }
+        if (result === "finished") {
+          res.status(409).json({
+            error: "Video is no longer queued or processing",
+            ...this.shortCreator.status(videoId),
+          });
+          return;
+        }
+        res.status(200).json({ videoId, status: "cancelled" });
+      },
+    );
+
+    this.router.post(
+      "/short-video/:videoId/promote",
+      async (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const result = this.shortCreator.promote(videoId);
+        switch (result) {
+          case "not_found":
+            res.status(404).json({ error: "Video not found" });
+            return;
+          case "not_draft":
+            res.status(409).json({ error: "Video is not a finished draft" });
+            return;
+          case "busy":
+            res.status(409).json({ error: "Video is already queued" });
+            return;
+          case "expired":
+            res.status(410).json({
+              error: "Draft assets are no longer available, create the video again",
+            });
+            return;
+        }
+        res.status(202).json({ videoId, status: "queued" });
+      },
+    );
+
+    // pinned videos are never evicted by the retention policy
+    const setPinned = (pinned: boolean) =>
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        if (!this.shortCreator.pinVideo(videoId, pinned)) {
+          res.status(404).json({ error: "Video not found" });
+          return;
+        }
+        res.status(200).json({ videoId, pinned });
+      };
+    this.router.post("/short-video/:videoId/pin", setPinned(true));
+    this.router.delete("/short-video/:videoId/pin", setPinned(false));
+
+    this.router.get("/storage", async (req: ExpressRequest, res: ExpressResponse) => {
+      try {
+        res.status(200).json(await this.shortCreator.getStorageUsage());
+      } catch (error: unknown) {
+        logger.error(error, "Error reading storage usage");
+        res.status(500).json({ error: "Error reading storage usage" });
+      }
+    });
+
+    this.router.get("/cache", async (req: ExpressRequest, res: ExpressResponse) => {
+      try {
+        res.status(200).json(await this.shortCreator.getCacheStats());
+      } catch (error: unknown) {
+        logger.error(error, "Error reading cache stats");
+        res.status(500).json({ error: "Error reading cache stats" });
+      }
+    });
+
+    // ?namespace=speech|speech-wav|speech-mp3|captions clears only that part
+    this.router.delete("/cache", async (req: ExpressRequest, res: ExpressResponse) => {
+      const namespace = typeof req.query.namespace === "string" ? req.query.namespace : undefined;
+      try {
+        const removed = await this.shortCreator.clearCache(namespace);
+        res.status(200).json({ removed });
+      } catch (error: unknown) {
+        logger.error(error, "Error clearing the cache");
+        res.status(500).json({
+          error: "Error clearing the cache",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    });
+
     this.router.get(
       "/music-tags",
       (req: ExpressRequest, res: ExpressResponse) => {
@@ -190,6 +522,32 @@ export class APIRouter {
       res.status(200).json(this.shortCreator.ListAvailableVoices());
     });
 
+    this.router.get("/lexicon", (req: ExpressRequest, res: ExpressResponse) => {
+      res.status(200).json({ entries: this.shortCreator.getLexicon() });
+    });
+
+    // Replaces the whole lexicon: { entries: [{ term, replacement, voices?, languages?, caseSensitive? }] }
+    this.router.put("/lexicon", (req: ExpressRequest, res: ExpressResponse) => {
+      let entries;
+      try {
+        entries = validateLexicon(req.body);
+      } catch (error: unknown) {
+        res.status(400).json({
+          error: "Validation failed",
+          ...this.parseValidationError(error),
+        });
+        return;
+      }
+
+      try {
+        this.shortCreator.setLexicon(entries);
+        res.status(200).json({ entries });
+      } catch (error: unknown) {
+        logger.error(error, "Error saving the pronunciation lexicon");
+        res.status(500).json({ error: "Error saving the pronunciation lexicon" });
+      }
+    });
+
     this.router.get(
       "/short-videos",
       (req: ExpressRequest, res: ExpressResponse) => {
@@ -210,7 +568,12 @@ export class APIRouter {
           });
           return;
         }
-        this.shortCreator.deleteVideo(videoId);
+        if (this.shortCreator.deleteVideo(videoId) === "busy") {
+          res.status(409).json({
+            error: "Video is queued or rendering, cancel it first",
+          });
+          return;
+        }
         res.status(200).json({
           success: true,
         });
@@ -235,25 +598,17 @@ export class APIRouter {
           return;
         }
 
+        let contentType: string | undefined;
         if (tmpFile.endsWith(".mp3")) {
-          res.setHeader("Content-Type", "audio/mpeg");
+          contentType = "audio/mpeg";
         }
         if (tmpFile.endsWith(".wav")) {
-          res.setHeader("Content-Type", "audio/wav");
+          contentType = "audio/wav";
         }
         if (tmpFile.endsWith(".mp4")) {
-          res.setHeader("Content-Type", "video/mp4");
+          contentType = "video/mp4";
         }
-
-        const tmpFileStream = fs.createReadStream(tmpFilePath);
-        tmpFileStream.on("error", (error) => {
-          logger.error(error, "Error reading tmp file");
-          res.status(500).json({
-            error: "Error reading tmp file",
-            tmpFile,
-          });
-        });
-        tmpFileStream.pipe(res);
+        this.sendMediaFile(req, res, this.config.tempDirPath, tmpFile, contentType);
       },
     );
 
@@ -274,43 +629,175 @@ export class APIRouter {
           });
           return;
         }
-        const musicFileStream = fs.createReadStream(musicFilePath);
-        musicFileStream.on("error", (error) => {
-          logger.error(error, "Error reading music file");
-          res.status(500).json({
-            error: "Error reading music file",
-            fileName,
+        this.sendMediaFile(req, res, this.config.musicDirPath, fileName);
+      },
+    );
+
+    this.router.get(
+      "/short-video/:videoId/outputs/:orientation",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId, orientation } = req.params;
+        const output = this.shortCreator
+          .getVideoOutputs(videoId)
+          .find((candidate) => candidate.orientation === orientation);
+        if (!output) {
+          res.status(404).json({
+            error: "Video output not found",
           });
-        });
-        musicFileStream.pipe(res);
+          return;
+        }
+        this.sendMediaFile(
+          req,
+          res,
+          this.config.videosDirPath,
+          path.basename(output.path),
+          getVideoMimeType(output.path),
+        );
+      },
+    );
+
+    this.router.get(
+      "/short-video/:videoId/thumbnail",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const thumbnailPath = this.shortCreator.getThumbnailPath(videoId);
+        if (!thumbnailPath) {
+          res.status(404).json({
+            error: "Thumbnail not found",
+          });
+          return;
+        }
+        this.sendMediaFile(
+          req,
+          res,
+          this.config.thumbnailsDirPath,
+          path.basename(thumbnailPath),
+          "image/jpeg",
+        );
+      },
+    );
+
+    // pino JSON lines logged while the video was rendering, ?tail=N for the last N
+    this.router.get(
+      "/short-video/:videoId/logs",
+      (req: ExpressRequest, res: ExpressResponse) => {
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const logPath = this.shortCreator.getJobLogPath(videoId);
+        if (!logPath) {
+          res.status(404).json({
+            error: "Logs not found",
+          });
+          return;
+        }
+        const contentType = "text/plain; charset=utf-8";
+        if (req.query.tail === undefined) {
+          this.sendMediaFile(req, res, this.config.jobLogsDirPath, path.basename(logPath), contentType);
+          return;
+        }
+        const lines = parseInt(String(req.query.tail), 10);
+        if (!Number.isInteger(lines) || lines <= 0) {
+          res.status(400).json({
+            error: "tail must be a positive integer",
+          });
+          return;
+        }
+        res.setHeader("Content-Type", contentType);
+        res.status(200).send(this.shortCreator.getJobLogTail(videoId, lines) ?? "");
       },
     );
 
     this.router.get(
       "/short-video/:videoId",
       (req: ExpressRequest, res: ExpressResponse) => {
-        try {
-          const { videoId } = req.params;
-          if (!videoId) {
-            res.status(400).json({
-              error: "videoId is required",
-            });
-            return;
-          }
-          const video = this.shortCreator.getVideo(videoId);
-          res.setHeader("Content-Type", "video/mp4");
-          res.setHeader(
-            "Content-Disposition",
-            `inline; filename=${videoId}.mp4`,
-          );
-          res.send(video);
-        } catch (error: unknown) {
-          logger.error(error, "Error getting video");
+        const { videoId } = req.params;
+        if (!videoId) {
+          res.status(400).json({
+            error: "videoId is required",
+          });
+          return;
+        }
+        const videoPath = this.shortCreator.getVideoPath(videoId);
+        if (!fs.existsSync(videoPath)) {
           res.status(404).json({
             error: "Video not found",
           });
+          return;
         }
+        this.sendMediaFile(
+          req,
+          res,
+          this.config.videosDirPath,
+          path.basename(videoPath),
+          getVideoMimeType(videoPath),
+        );
       },
     );
   }
+
+  /**
+   * Stream a file with Range requests (206), ETag / Last-Modified revalidation
+   * (304) and HEAD support. `?download=1` sends it as an attachment instead of
+   * inline. Paths are resolved inside root, so ".." in the name is rejected.
+   */
+  private sendMediaFile(
+    req: ExpressRequest,
+    res: ExpressResponse,
+    root: string,
+    fileName: string,
+    contentType?: string,
+  ): void {
+    if (contentType) {
+      res.setHeader("Content-Type", contentType);
+    }
+    const disposition = req.query.download === "1" ? "attachment" : "inline";
+    res.setHeader("Content-Disposition", `${disposition}; filename=${fileName}`);
+
+    res.sendFile(
+      fileName,
+      { root, acceptRanges: true, etag: true, lastModified: true },
+      (error?: Error & { status?: number }) => {
+        if (!error) {
+          return;
+        }
+        if (res.headersSent) {
+          // usually the player closed the connection to seek elsewhere
+          logger.debug({ error, fileName }, "File stream ended early");
+          return;
+        }
+        logger.error(error, "Error sending file");
+        res.removeHeader("Content-Disposition");
+        res.status(error.status ?? 500).json({
+          error: "Error reading file",
+          fileName,
+        });
+      },
+    );
+  }
+
+  /**
+   * validateCreateShortInput throws JSON-encoded details; unpack them for the response
+   */
+  private parseValidationError(error: unknown): Record<string, unknown> {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message.startsWith("{")) {
+      try {
+        return JSON.parse(message);
+      } catch (parseError: unknown) {
+        logger.error(parseError, "Error parsing validation error");
+      }
+    }
+    return { message };
+  }
 }
@@ -14,6 +14,15 @@ import { VideoAnalyzer } from "../video-analyzer/VideoAnalyzer";
 import videoAnalyzerRouter from "./routers/video-analyzer";
 import { initVideoAnalyzerRouter } from "./routers/video-analyzer";
 import { HealthChecker } from "../monitoring";
+import {
+  metrics,
+  PROMETHEUS_CONTENT_TYPE,
+  queueDepthGauge,
+  runningJobsGauge,
+  videoAnalyzerJobsGauge,
+  diskUsageGauge,
+  diskFreeGauge,
+} from "../monitoring/Metrics";
 
 export class Server {
   private app: express.Application;
@@ -46,6 +55,18 @@ export class Server {
       }
     });
 
+    // Prometheus scrape endpoint
+    this.app.get("/metrics", async (_req: ExpressRequest, res: ExpressResponse) => {
+      try {
+        await this.updateMetrics(shortCreator, videoAnalyzer);
+        res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+        res.status(200).send(metrics.render());
+      } catch (error: unknown) {
+        logger.error(error, "Error collecting metrics");
+        res.status(500).send("Error collecting metrics\n");
+      }
+    });
+
     const apiRouter = new APIRouter(config, shortCreator);
     const mcpRouter = new MCPRouter(shortCreator);
     this.app.use("/api", apiRouter.router);
@@ -80,6 +101,35 @@ export class Server {
     });
   }
 
+  /**
+   * Gauges that are read from the current state on every scrape. Storage
+   * comes from the last background measurement, not a fresh walk.
+   */
+  private async updateMetrics(shortCreator: ShortCreator, videoAnalyzer?: VideoAnalyzer): Promise<void> {
+    const queue = shortCreator.getQueueStats();
+    queueDepthGauge.set({}, queue.queued);
+    runningJobsGauge.set({}, queue.running);
+
+    if (videoAnalyzer) {
+      const counts = new Map<string, number>();
+      for (const job of videoAnalyzer.getAllJobs()) {
+        counts.set(job.status, (counts.get(job.status) ?? 0) + 1);
+      }
+      videoAnalyzerJobsGauge.reset();
+      counts.forEach((count, status) => videoAnalyzerJobsGauge.set({ status }, count));
+    }
+
+    const storage = await shortCreator.getWorkspaceUsage();
+    diskUsageGauge.set({ directory: "renders" }, storage.renders.bytes);
+    diskUsageGauge.set({ directory: "thumbnails" }, storage.thumbnails.bytes);
+    diskUsageGauge.set({ directory: "temp" }, storage.temp.bytes);
+    diskUsageGauge.set({ directory: "cache" }, storage.cache.bytes);
+    diskUsageGauge.set({ directory: "downloads" }, storage.downloads.bytes);
+    if (storage.disk) {
+      diskFreeGauge.set({}, storage.disk.freeBytes);
+    }
+  }
+
   public start(): http.Server {
     const server = this.app.listen(this.config.port, () => {
       logger.info(
@@ -1,4 +1,4 @@
-import { createShortInput, CreateShortInput } from "../types/shorts";
+import { createShortInput, CreateShortInput, lexiconSchema, type LexiconEntry } from "../types/shorts";
 import { logger } from "../logger";
 import { ZodError } from "zod";
 
@@ -26,6 +26,21 @@ export function validateCreateShortInput(input: object): CreateShortInput {
   );
 }
 
+export function validateLexicon(input: unknown): LexiconEntry[] {
+  const validated = lexiconSchema.safeParse(input);
+  if (validated.success) {
+    return validated.data.entries;
+  }
+
+  const errorResult = formatZodError(validated.error);
+  throw new Error(
+    JSON.stringify({
+      message: errorResult.message,
+      missingFields: errorResult.missingFields,
+    }),
+  );
+}
+
 function formatZodError(error: ZodError): ValidationErrorResult {
   const missingFields: Record<string, string> = {};
 
@@ -5,6 +5,7 @@ import fs from "fs-extra";
 
 import { ShortCreator } from "./ShortCreator";
 import { Kokoro } from "./libraries/Kokoro";
+import { TtsRegistry } from "./tts/TtsRegistry";
 import { Remotion } from "./libraries/Remotion";
 import { Whisper } from "./libraries/Whisper";
 import { FFMpeg } from "./libraries/FFmpeg";
@@ -55,6 +56,12 @@ vi.mock("fs-extra", async () => {
     readFileSync: vi.fn((path) => {
       return memfs.readFileSync(path);
     }),
+    writeJsonSync: vi.fn((path, data) => {
+      memfs.writeFileSync(path, JSON.stringify(data));
+    }),
+    readJsonSync: vi.fn((path) => {
+      return JSON.parse(memfs.readFileSync(path, "utf8") as string);
+    }),
   };
   return {
     ...fsExtra,
@@ -158,6 +165,20 @@ test("test me", async () => {
   });
 
   const config = new Config();
+  // "../config" resolves to the compiled config.js, which predates these settings
+  const dataDir = "/Users/gyoridavid/.ai-agents-az-video-generator";
+  config.videosDirPath = `${dataDir}/videos`;
+  config.tempDirPath = `${dataDir}/temp`;
+  config.jobsDirPath = `${dataDir}/jobs`;
+  config.maxParallelJobs = 1;
+  config.ttsConcurrency = 1;
+  config.renderConcurrency = 1;
+  config.batchesDirPath = `${dataDir}/batches`;
+  config.idempotencyKeysPath = `${dataDir}/idempotency-keys.json`;
+  config.thumbnailsDirPath = `${dataDir}/thumbnails`;
+  config.jobLogsDirPath = `${dataDir}/job-logs`;
+  config.lexiconPath = `${dataDir}/lexicon.json`;
+  config.cacheDirPath = `${dataDir}/cache`;
   const remotion = await Remotion.init(config);
 
   // control the render promise resolution
@@ -182,7 +203,7 @@ test("test me", async () => {
   const shortCreator = new ShortCreator(
     config,
     remotion,
-    kokoro,
+    new TtsRegistry("kokoro").register(kokoro),
     whisper,
     ffmpeg,
     pexelsAPI,
@@ -3,8 +3,27 @@ import { OrientationEnum } from "./../types/shorts";
 import fs from "fs-extra";
 import cuid from "cuid";
 import path from "path";
-
-import { Kokoro } from "./libraries/Kokoro";
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type z from "zod";
+import type { Logger } from "pino";
+
+import { TtsRegistry } from "./tts/TtsRegistry";
+import { PronunciationLexicon } from "./tts/PronunciationLexicon";
+import { alignCaptions } from "./captions/alignCaptions";
+import { loadNarration } from "./tts/narration";
+import { parseSpeechMarkup } from "./tts/speechMarkup";
+import { getWavDuration } from "./tts/wav";
+import type { TtsVoice } from "./tts/TtsProvider";
+import {
+  assignSpeakers,
+  resolveSceneSpeech,
+  resolveSpeakerColors,
+  synthesizeSceneSpeech,
+  type SceneSpeech,
+  type SpeakerTurn,
+} from "./tts/sceneSpeech";
+import { CacheManager, type CacheStats } from "./cache/CacheManager";
 import { Remotion } from "./libraries/Remotion";
 import { Whisper } from "./libraries/Whisper";
 import { FFMpeg } from "./libraries/FFmpeg";
@@ -13,34 +32,93 @@ import { Config } from "../config";
 import { logger } from "../logger";
 import { MusicManager } from "./music";
 import { ContentSourceFactory } from "./libraries/ContentSource";
-import { EffectManager } from "./effects/EffectManager";
+import {
+  EffectManager,
+  type ProcessedBannerEffect,
+  type ProcessedBlendEffect,
+  type ProcessedEffect,
+} from "./effects/EffectManager";
+import { JobStore, type JobRecord, type JobInput } from "./queue/JobStore";
+import { Semaphore } from "./queue/Semaphore";
+import { BatchStore } from "./queue/BatchStore";
+import { IdempotencyStore, hashRequestBody } from "./queue/IdempotencyStore";
+import { JobCancelledError, isJobCancelled } from "./queue/JobCancelledError";
+import { WebhookNotifier, type WebhookPayload } from "./webhooks/WebhookNotifier";
+import { RenderPlanner, type RenderPlan } from "./planning/RenderPlanner";
+import { JobLogStore } from "./logging/JobLogStore";
+import { ThumbnailGenerator } from "./thumbnails/ThumbnailGenerator";
+import {
+  RetentionManager,
+  type RetentionCandidate,
+  type StorageUsage,
+  type WorkspaceUsage,
+} from "./storage/RetentionManager";
+import {
+  resolveOrientations,
+  resolveOutputSettings,
+  VIDEO_EXTENSIONS,
+  type OutputSettings,
+} from "./output/OutputSettings";
 import type { AlertManager, ProcessMonitor } from "../monitoring";
+import { jobsTotal, stageDurationHistogram } from "../monitoring/Metrics";
+import { getOrientationConfig, type shortVideoSchema } from "../components/utils";
 import type {
   SceneInput,
   RenderConfig,
   Scene,
   VideoStatus,
+  VideoStatusInfo,
+  BatchStatusInfo,
+  VideoOutput,
+  CreateShortInput,
   MusicMoodEnum,
   MusicTag,
   MusicForVideo,
+  LexiconEntry,
+  Caption,
+  Narration,
 } from "../types/shorts";
 
+type QueueItem = {
+  sceneInput: SceneInput[];
+  config: RenderConfig;
+  id: string;
+  /** Re-render an existing draft at full quality instead of creating the video */
+  promote?: boolean;
+};
+
+/** Speech cache metadata; the WAV and MP3 are cached next to it */
+type CachedSpeech = {
+  audioLength: number;
+  turns: SpeakerTurn[];
+};
+
 export class ShortCreator {
-  private queue: {
-    sceneInput: SceneInput[];
-    config: RenderConfig;
-    id: string;
-  }[] = [];
+  private queue: QueueItem[] = [];
   private contentSourceFactory: ContentSourceFactory;
-  private effectManager: EffectManager;
-  private progressMap: Map<string, { progress: number; stage: string }> = new Map();
+  private jobStore: JobStore;
+  private batchStore: BatchStore;
+  private idempotencyStore: IdempotencyStore;
+  private runningJobs: Set<string> = new Set();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private speechSemaphore: Semaphore;
+  private renderSemaphore: Semaphore;
+  private webhookNotifier: WebhookNotifier;
+  private renderPlanner: RenderPlanner;
+  private thumbnailGenerator: ThumbnailGenerator;
+  private jobLogStore: JobLogStore;
+  private lexicon: PronunciationLexicon;
+  private cache: CacheManager;
+  private retentionManager: RetentionManager;
+  // per-video status updates, event name is the video id
+  private statusEvents: EventEmitter = new EventEmitter();
   private alertManager?: AlertManager;
   private processMonitor?: ProcessMonitor;
 
   constructor(
     private config: Config,
     private remotion: Remotion,
-    private kokoro: Kokoro,
+    private tts: TtsRegistry,
     private whisper: Whisper,
     private ffmpeg: FFMpeg,
     private pexelsApi: PexelsAPI,
@@ -48,7 +126,24 @@ export class ShortCreator {
     alertManager?: AlertManager,
   ) {
     this.contentSourceFactory = new ContentSourceFactory(config, pexelsApi);
-    this.effectManager = new EffectManager(config);
+    this.jobStore = new JobStore(config);
+    this.batchStore = new BatchStore(config);
+    this.idempotencyStore = new IdempotencyStore(config);
+    this.speechSemaphore = new Semaphore(config.ttsConcurrency);
+    this.renderSemaphore = new Semaphore(config.renderConcurrency);
+    this.webhookNotifier = new WebhookNotifier(config);
+    this.lexicon = new PronunciationLexicon(config);
+    this.cache = new CacheManager(config);
+    this.renderPlanner = new RenderPlanner(config, pexelsApi, tts, musicManager, this.lexicon);
+    this.thumbnailGenerator = new ThumbnailGenerator(config, remotion);
+    this.jobLogStore = new JobLogStore(config);
+    this.retentionManager = new RetentionManager(config, {
+      listVideos: () => this.listRetentionCandidates(),
+      deleteVideo: (id) => this.deleteVideo(id),
+      protectedTempPaths: () => this.getDraftAssetPaths(),
+    });
+    // one listener per open SSE stream / waiting MCP call
+    this.statusEvents.setMaxListeners(0);
     this.alertManager = alertManager;
   }
 
@@ -59,30 +154,105 @@ export class ShortCreator {
     this.processMonitor = processMonitor;
   }
 
-  public status(id: string): { status: VideoStatus; progress?: number; stage?: string } {
-    const videoPath = this.getVideoPath(id);
-    const progressInfo = this.progressMap.get(id);
+  /**
+   * Current status of a video, or undefined when the id is unknown
+   * (never created, or deleted)
+   */
+  public status(id: string): VideoStatusInfo | undefined {
+    const record = this.jobStore.get(id);
+    if (!record) {
+      // videos rendered before jobs were persisted have no record
+      return fs.existsSync(this.getVideoPath(id))
+        ? { status: "ready", progress: 100 }
+        : undefined;
+    }
 
-    if (this.queue.find((item) => item.id === id)) {
-      return {
-        status: "processing",
-        progress: progressInfo?.progress || 0,
-        stage: progressInfo?.stage || "Initializing..."
-      };
+    switch (record.state) {
+      case "queued":
+      case "processing":
+        return {
+          status: "processing",
+          progress: record.progress,
+          stage: record.stage || "Initializing...",
+        };
+      case "ready": {
+        const outputs = this.getOutputUrls(id);
+        return {
+          status: "ready",
+          progress: 100,
+          ...(outputs.length > 1 && { outputs }),
+          ...(record.pinned && { pinned: true }),
+        };
+      }
+      case "cancelled":
+        return { status: "cancelled", progress: 0 };
+      case "failed":
+        return { status: "failed", progress: 0, stage: record.stage, error: record.error?.message };
+    }
+  }
+
+  /**
+   * Subscribe to status changes of one video; returns an unsubscribe function
+   */
+  public subscribeToStatus(
+    id: string,
+    listener: (status: VideoStatusInfo) => void,
+  ): () => void {
+    this.statusEvents.on(id, listener);
+    return () => {
+      this.statusEvents.off(id, listener);
+    };
+  }
+
+  /**
+   * Resolve once the video is ready, failed or cancelled, or with the
+   * latest status when the timeout runs out. Undefined for unknown ids.
+   */
+  public waitForCompletion(id: string, timeoutMs: number): Promise<VideoStatusInfo | undefined> {
+    return new Promise((resolve) => {
+      const current = this.status(id);
+      if (!current || current.status !== "processing") {
+        resolve(current);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(this.status(id));
+      }, timeoutMs);
+      const unsubscribe = this.subscribeToStatus(id, (status) => {
+        if (status.status !== "processing") {
+          clearTimeout(timer);
+          unsubscribe();
+          resolve(status);
+        }
+      });
+    });
+  }
+
+  private emitStatus(id: string): void {
+    const status = this.status(id);
+    if (status) {
+      this.statusEvents.emit(id, status);
     }
-    if (fs.existsSync(videoPath)) {
-      // Clean up progress info for completed videos
-      this.progressMap.delete(id);
-      return { status: "ready", progress: 100 };
+  }
+
+  /**
+   * Full job record with the original input, or undefined for unknown ids
+   */
+  public getDetails(id: string): (JobRecord & { input?: JobInput }) | undefined {
+    const record = this.jobStore.get(id);
+    if (!record) {
+      return undefined;
     }
-    // Clean up progress info for failed videos
-    this.progressMap.delete(id);
-    return { status: "failed", progress: 0 };
+    return { ...record, input: this.jobStore.getInput(id) };
   }
 
   private updateProgress(id: string, progress: number, stage: string): void {
-    this.progressMap.set(id, { progress: Math.min(100, Math.max(0, progress)), stage });
+    const clampedProgress = Math.min(100, Math.max(0, progress));
+    this.jobStore.update(id, { state: "processing", progress: clampedProgress, stage });
     logger.debug({ videoId: id, progress, stage }, "Progress updated");
+    this.emitStatus(id);
 
     // Update ProcessMonitor if available
     if (this.processMonitor) {
@@ -91,8 +261,18 @@ export class ShortCreator {
   }
 
   public addToQueue(sceneInput: SceneInput[], config: RenderConfig): string {
+    this.validateVoices(sceneInput, config);
+
     // todo add mutex lock
     const id = cuid();
+    this.jobStore.create(
+      id,
+      { sceneInput, config },
+      {
+        container: resolveOutputSettings(config.output).container,
+        orientations: resolveOrientations(config),
+      },
+    );
     this.queue.push({
       sceneInput,
       config,
@@ -111,25 +291,316 @@ export class ShortCreator {
       });
     }
 
-    if (this.queue.length === 1) {
+    this.processQueue();
+    return id;
+  }
+
+  /**
+   * Unknown provider or voice: reject the request instead of failing the job later
+   */
+  private validateVoices(sceneInput: SceneInput[], config: RenderConfig): void {
+    this.tts.resolve(config.ttsProvider, config.voice, config.language);
+    sceneInput
+      .filter((scene) => !scene.narration)
+      .forEach((scene) => resolveSceneSpeech(this.tts, scene, config, this.lexicon));
+  }
+
+  /**
+   * addToQueue guarded by an idempotency key: repeating a submission with the
+   * same key and input returns the original videoId instead of a new render.
+   * Throws IdempotencyConflictError when the key was used for other input.
+   */
+  public addToQueueIdempotent(
+    idempotencyKey: string,
+    sceneInput: SceneInput[],
+    config: RenderConfig,
+  ): { videoId: string; replayed: boolean } {
+    const bodyHash = hashRequestBody({ sceneInput, config });
+    const existingVideoId = this.idempotencyStore.find(idempotencyKey, bodyHash);
+    if (existingVideoId) {
+      logger.info({ videoId: existingVideoId, idempotencyKey }, "Duplicate submission, returning existing video");
+      return { videoId: existingVideoId, replayed: true };
+    }
+
+    const videoId = this.addToQueue(sceneInput, config);
+    this.idempotencyStore.remember(idempotencyKey, bodyHash, videoId);
+    return { videoId, replayed: false };
+  }
+
+  /**
+   * Dry run: check a request and estimate timings without rendering anything.
+   * Synthesizing speech shares the TTS worker pool with real jobs.
+   */
+  public plan(
+    sceneInput: SceneInput[],
+    config: RenderConfig,
+    options: { synthesize?: boolean } = {},
+  ): Promise<RenderPlan> {
+    if (options.synthesize) {
+      return this.speechSemaphore.run(() => this.renderPlanner.plan(sceneInput, config, options));
+    }
+    return this.renderPlanner.plan(sceneInput, config, options);
+  }
+
+  /**
+   * Queue several videos at once and group them under a batch id
+   */
+  public addBatchToQueue(items: CreateShortInput[]): { batchId: string; videoIds: string[] } {
+    // validate every item first so a bad one doesn't leave half a batch queued
+    items.forEach((item) => this.validateVoices(item.scenes, item.config));
+    const videoIds = items.map((item) => this.addToQueue(item.scenes, item.config));
+    const batch = this.batchStore.create(videoIds);
+    logger.info({ batchId: batch.id, videoCount: videoIds.length }, "Batch queued");
+    return { batchId: batch.id, videoIds };
+  }
+
+  /**
+   * Aggregate status of a batch, or undefined for unknown batch ids
+   */
+  public getBatchStatus(batchId: string): BatchStatusInfo | undefined {
+    const batch = this.batchStore.get(batchId);
+    if (!batch) {
+      return undefined;
+    }
+
+    const counts: Record<VideoStatus, number> = {
+      processing: 0,
+      ready: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    let progressSum = 0;
+    const videos = batch.videoIds.map((videoId) => {
+      // videos deleted after the batch was created count as failed
+      const status = this.status(videoId) ?? { status: "failed", error: "Video not found" };
+      counts[status.status]++;
+      progressSum += status.status === "processing" ? (status.progress ?? 0) : 100;
+      return { videoId, ...status };
+    });
+
+    return {
+      batchId,
+      createdAt: batch.createdAt,
+      total: videos.length,
+      progress: videos.length > 0 ? Math.round(progressSum / videos.length) : 100,
+      counts,
+      videos,
+    };
+  }
+
+  /**
+   * Re-enqueue jobs that were queued or rendering when the server stopped.
+   * Interrupted renders restart from scratch. Called once on boot.
+   */
+  public restoreQueue(): number {
+    const unfinished = this.jobStore.listUnfinished();
+    let restored = 0;
+    for (const record of unfinished) {
+      const input = this.jobStore.getInput(record.id);
+      if (!input) {
+        this.jobStore.update(record.id, { state: "failed", stage: "Job input lost" });
+        continue;
+      }
+      this.jobStore.update(record.id, { state: "queued", progress: 0, stage: "Restored after restart" });
+      this.queue.push({
+        sceneInput: input.sceneInput,
+        config: input.config,
+        id: record.id,
+        promote: record.promoting && this.jobStore.getDraft(record.id) !== undefined,
+      });
+      restored++;
+      if (this.processMonitor) {
+        this.processMonitor.registerProcess(record.id);
+      }
+    }
+
+    if (restored > 0) {
+      logger.info({ restoredJobs: restored }, "Restored unfinished jobs from job store");
       this.processQueue();
     }
-    return id;
+    return restored;
+  }
+
+  /**
+   * Queue a full quality re-render of a finished draft. Reuses the draft's
+   * audio, captions and media, so TTS and Whisper don't run again.
+   */
+  public promote(id: string): "queued" | "not_found" | "not_draft" | "busy" | "expired" {
+    if (this.queue.find((item) => item.id === id)) {
+      return "busy";
+    }
+    const record = this.jobStore.get(id);
+    const input = this.jobStore.getInput(id);
+    if (!record || !input) {
+      return "not_found";
+    }
+    const draft = this.jobStore.getDraft(id);
+    if (!draft) {
+      return "not_draft";
+    }
+    if (!draft.assetPaths.every((file) => fs.existsSync(file))) {
+      return "expired";
+    }
+
+    logger.info({ videoId: id }, "Promoting draft to full quality");
+    this.jobStore.update(id, {
+      state: "queued",
+      progress: 0,
+      stage: "Queued for full quality render",
+      promoting: true,
+    });
+    this.queue.push({ sceneInput: input.sceneInput, config: input.config, id, promote: true });
+    if (this.processMonitor) {
+      this.processMonitor.registerProcess(id);
+    }
+    this.emitStatus(id);
+    this.processQueue();
+    return "queued";
+  }
+
+  /**
+   * Cancel a queued or running job. Queued jobs are dropped right away,
+   * running ones are aborted and clean up after themselves in processJob.
+   */
+  public cancel(id: string): "cancelled" | "not_found" | "finished" {
+    const queued = this.queue.find((item) => item.id === id);
+    if (!queued) {
+      return this.jobStore.get(id) || fs.existsSync(this.getVideoPath(id))
+        ? "finished"
+        : "not_found";
+    }
+
+    const controller = this.abortControllers.get(id);
+    if (controller) {
+      logger.info({ videoId: id }, "Cancelling running video");
+      controller.abort(new JobCancelledError(id));
+      this.updateProgress(id, this.jobStore.get(id)?.progress ?? 0, "Cancelling...");
+      return "cancelled";
+    }
+
+    logger.info({ videoId: id }, "Cancelling queued video");
+    this.queue = this.queue.filter((item) => item.id !== id);
+    this.markCancelled(id, queued.config);
+    return "cancelled";
+  }
+
+  private markCancelled(id: string, config: RenderConfig): void {
+    this.jobStore.update(id, {
+      state: "cancelled",
+      stage: "Cancelled",
+      finishedAt: new Date().toISOString(),
+      promoting: false,
+    });
+    jobsTotal.inc({ outcome: "cancelled" });
+    if (this.processMonitor) {
+      this.processMonitor.removeProcess(id);
+    }
+    this.emitStatus(id);
+    this.sendWebhook(id, config, { status: "cancelled" });
   }
 
-  private async processQueue(): Promise<void> {
-    // todo add a semaphore
-    if (this.queue.length === 0) {
+  /**
+   * Count a successful job and feed its per-stage totals to the histograms
+   */
+  private recordJobMetrics(id: string): void {
+    jobsTotal.inc({ outcome: "ready" });
+    const stageDurations = this.jobStore.get(id)?.stageDurations ?? {};
+    for (const [stage, durationMs] of Object.entries(stageDurations)) {
+      stageDurationHistogram.observe({ stage }, (durationMs ?? 0) / 1000);
+    }
+  }
+
+  /**
+   * Videos waiting in the queue and videos being rendered
+   */
+  public getQueueStats(): { queued: number; running: number } {
+    return {
+      queued: this.queue.filter((item) => !this.runningJobs.has(item.id)).length,
+      running: this.runningJobs.size,
+    };
+  }
+
+  /**
+   * Fire-and-forget delivery of the job outcome to renderConfig.webhook
+   */
+  private sendWebhook(
+    videoId: string,
+    config: RenderConfig,
+    payload: Omit<WebhookPayload, "videoId" | "timestamp">,
+  ): void {
+    if (!config.webhook) {
       return;
     }
-    const { sceneInput, config, id } = this.queue[0];
-    logger.debug(
-      { sceneInput, config, id },
+    void this.webhookNotifier.send(config.webhook, {
+      videoId,
+      ...payload,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Start queued jobs until the worker pool is full. Safe to call any time:
+   * it only picks up jobs that aren't already running.
+   */
+  private processQueue(): void {
+    for (const item of this.queue) {
+      if (this.runningJobs.size >= this.config.maxParallelJobs) {
+        return;
+      }
+      if (this.runningJobs.has(item.id)) {
+        continue;
+      }
+      this.runningJobs.add(item.id);
+      this.processJob(item);
+    }
+  }
+
+  /**
+   * Run a queued job with its own log file (see JobLogStore)
+   */
+  private processJob(item: QueueItem): Promise<void> {
+    return this.jobLogStore.run(item.id, (jobLogger) => this.runJob(item, jobLogger));
+  }
+
+  private async runJob(item: QueueItem, jobLogger: Logger): Promise<void> {
+    const { sceneInput, config, id } = item;
+    // the input can hold base64 uploads, it is in the job store already
+    jobLogger.debug(
+      { sceneCount: sceneInput.length, promote: item.promote },
       "Processing video item in the queue",
     );
+    const controller = new AbortController();
+    this.abortControllers.set(id, controller);
+    // restored jobs start over, so drop timings and errors from the interrupted run
+    this.jobStore.update(id, {
+      startedAt: new Date().toISOString(),
+      finishedAt: undefined,
+      stageDurations: {},
+      error: undefined,
+    });
     try {
-      const duration = await this.createShort(id, sceneInput, config);
-      logger.debug({ id }, "Video created successfully");
+      const duration = item.promote
+        ? await this.renderPromotedDraft(id, config, controller.signal)
+        : await this.createShort(id, sceneInput, config, controller.signal);
+      jobLogger.debug("Video created successfully");
+      await this.generateThumbnail(id, config, duration);
+      this.jobStore.update(id, {
+        state: "ready",
+        progress: 100,
+        stage: "Completed",
+        finishedAt: new Date().toISOString(),
+        quality: item.promote ? "final" : (config.quality ?? "final"),
+        promoting: false,
+      });
+      this.recordJobMetrics(id);
+      this.emitStatus(id);
+      const outputs = this.getOutputUrls(id);
+      this.sendWebhook(id, config, {
+        status: "ready",
+        duration,
+        downloadUrl: `${this.config.publicUrl}/api/short-video/${id}`,
+        ...(outputs.length > 1 && { outputs }),
+      });
 
       // Mark process as completed in monitor
       if (this.processMonitor) {
@@ -140,15 +611,43 @@ export class ShortCreator {
       // Отправить уведомление об успешном создании
       if (this.alertManager) {
         this.alertManager.sendVideoCreated(id, duration, sceneInput.length).catch((error) => {
-          logger.error(error, 'Failed to send video created notification');
+          jobLogger.error(error, 'Failed to send video created notification');
         });
       }
     } catch (error: unknown) {
-      logger.error(error, "Error creating video");
+      if (isJobCancelled(error)) {
+        jobLogger.info("Video cancelled");
+        // drop partially rendered outputs so the video doesn't show up as ready;
+        // a promotion renders to temp files and the draft output stays
+        if (!item.promote) {
+          for (const orientation of resolveOrientations(config)) {
+            fs.removeSync(this.getVideoPath(id, orientation));
+          }
+        }
+        this.markCancelled(id, config);
+        return;
+      }
+
+      jobLogger.error(error, "Error creating video");
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      // scene failures already stored their index, keep it
+      const sceneIndex = this.jobStore.get(id)?.error?.sceneIndex;
+      this.jobStore.update(id, {
+        state: "failed",
+        stage: `Failed: ${errorMsg}`,
+        finishedAt: new Date().toISOString(),
+        error: { message: errorMsg, sceneIndex },
+        promoting: false,
+      });
+      jobsTotal.inc({ outcome: "failed" });
+      this.emitStatus(id);
+      this.sendWebhook(id, config, {
+        status: "failed",
+        error: { message: errorMsg, sceneIndex },
+      });
 
       // Mark process as failed in monitor
       if (this.processMonitor) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
         this.processMonitor.updateProcess(id, 0, `Failed: ${errorMsg}`, 'failed');
         this.processMonitor.removeProcess(id);
       }
@@ -157,11 +656,13 @@ export class ShortCreator {
       if (this.alertManager) {
         const err = error instanceof Error ? error : new Error(String(error));
         this.alertManager.sendVideoCreationFailed(id, err, sceneInput.length).catch((alertError) => {
-          logger.error(alertError, 'Failed to send video creation failed notification');
+          jobLogger.error(alertError, 'Failed to send video creation failed notification');
         });
       }
     } finally {
-      this.queue.shift();
+      this.abortControllers.delete(id);
+      this.queue = this.queue.filter((queued) => queued.id !== id);
+      this.runningJobs.delete(id);
       this.processQueue();
     }
   }
@@ -170,11 +671,12 @@ export class ShortCreator {
     videoId: string,
     inputScenes: SceneInput[],
     config: RenderConfig,
+    signal: AbortSignal,
   ): Promise<number> {
     logger.debug(
       {
-        inputScenes,
-        config,
+        videoId,
+        sceneCount: inputScenes.length,
       },
       "Creating short video",
     );
@@ -190,39 +692,15 @@ export class ShortCreator {
     const effectManagers: EffectManager[] = [];
     const allProcessedEffects: any[] = []; // Collect all effects for FFmpeg post-processing
 
-    const orientation: OrientationEnum =
-      config.orientation || OrientationEnum.portrait;
+    // media is fetched once for the primary orientation, the others crop it
+    const orientations = resolveOrientations(config);
+    const orientation = orientations[0];
 
     const totalScenes = inputScenes.length;
     let index = 0;
     for (const scene of inputScenes) {
       try {
-        // Progress: 0-30% for TTS generation
-        const ttsProgress = (index / totalScenes) * 30;
-        this.updateProgress(videoId, ttsProgress, `Generating voice for scene ${index + 1}/${totalScenes}...`);
-
-        const audio = await this.kokoro.generate(
-          scene.text,
-          config.voice ?? "af_heart",
-        );
-        let { audioLength } = audio;
-        let { audio: audioStream } = audio;
-
-        // Apply voice speed change if specified (1.0-1.5x)
-        const voiceSpeed = config.voiceSpeed ?? 1.0;
-        if (voiceSpeed !== 1.0) {
-          logger.info({ voiceSpeed, scene: index + 1 }, "Applying voice speed change");
-          audioStream = await this.ffmpeg.changeAudioSpeed(audioStream, voiceSpeed);
-          // Adjust audio length based on speed (faster = shorter duration)
-          audioLength = audioLength / voiceSpeed;
-          logger.debug({ originalLength: audioLength * voiceSpeed, newLength: audioLength, voiceSpeed }, "Audio length adjusted for speed");
-        }
-
-        // add the paddingBack in seconds to the last scene
-        if (index + 1 === inputScenes.length && config.paddingBack) {
-          audioLength += config.paddingBack / 1000;
-        }
-
+        signal.throwIfAborted();
         const tempId = cuid();
         const tempWavFileName = `${tempId}.wav`;
         const tempMp3FileName = `${tempId}.mp3`;
@@ -230,18 +708,107 @@ export class ShortCreator {
         const tempMp3Path = path.join(this.config.tempDirPath, tempMp3FileName);
         tempFiles.push(tempWavPath, tempMp3Path);
 
-        await this.ffmpeg.saveNormalizedAudio(audioStream, tempWavPath);
+        // TTS and Whisper are CPU/memory heavy - limited by the speech worker pool
+        const speech = await this.speechSemaphore.run(async () => {
+          if (scene.narration) {
+            return this.prepareNarration(
+              videoId,
+              scene.narration,
+              scene.text,
+              scene.language ?? config.language,
+              index,
+              totalScenes,
+              tempWavPath,
+              tempMp3Path,
+              signal,
+            );
+          }
+
+          // Progress: 0-30% for TTS generation
+          const ttsProgress = (index / totalScenes) * 30;
+          this.updateProgress(videoId, ttsProgress, `Generating voice for scene ${index + 1}/${totalScenes}...`);
+
+          const ttsStartedAt = Date.now();
+          const sceneSpeech = resolveSceneSpeech(this.tts, scene, config, this.lexicon);
+          const { voiceSpeed } = sceneSpeech;
+          const speechKey = this.getSpeechCacheKey(sceneSpeech);
+          let cached = await this.cache.get<CachedSpeech>("speech", speechKey);
+          const cachedWavPath = cached && (await this.cache.getFile("speech-wav", speechKey));
+          const cachedMp3Path = cachedWavPath && (await this.cache.getFile("speech-mp3", speechKey));
+          if (cached && cachedWavPath && cachedMp3Path) {
+            logger.debug({ scene: index + 1 }, "Reusing cached speech");
+            await fs.copy(cachedWavPath, tempWavPath);
+            await fs.copy(cachedMp3Path, tempMp3Path);
+          } else {
+            const audio = await synthesizeSceneSpeech(sceneSpeech, signal);
+            let { audioLength } = audio;
+            let { audio: audioStream } = audio;
+
+            // Apply voice speed change if specified (1.0-1.5x)
+            if (voiceSpeed !== 1.0) {
+              logger.info({ voiceSpeed, scene: index + 1 }, "Applying voice speed change");
+              audioStream = await this.ffmpeg.changeAudioSpeed(audioStream, voiceSpeed);
+              // Adjust audio length based on speed (faster = shorter duration)
+              audioLength = audioLength / voiceSpeed;
+              logger.debug({ originalLength: audioLength * voiceSpeed, newLength: audioLength, voiceSpeed }, "Audio length adjusted for speed");
+            }
+
+            signal.throwIfAborted();
+            await this.ffmpeg.saveNormalizedAudio(audioStream, tempWavPath);
+            await this.ffmpeg.saveToMp3(audioStream, tempMp3Path);
+
+            // dialogue turns were measured before the speed change
+            const turns = audio.turns.map((turn) => ({
+              ...turn,
+              startMs: turn.startMs / voiceSpeed,
+              endMs: turn.endMs / voiceSpeed,
+            }));
+            cached = { audioLength, turns };
+            await this.cacheSpeech(speechKey, cached, tempWavPath, tempMp3Path);
+          }
+          const { audioLength, turns } = cached;
+
+          this.jobStore.addStageDuration(videoId, "tts", Date.now() - ttsStartedAt);
+
+          signal.throwIfAborted();
+          const captionsStartedAt = Date.now();
+
+          // Progress: 30-40% for subtitles generation
+          const subtitlesProgress = 30 + (index / totalScenes) * 10;
+          this.updateProgress(videoId, subtitlesProgress, `Generating subtitles for scene ${index + 1}/${totalScenes}...`);
+
+          // raw transcriptions are cached, so alignment changes apply to cached speech too
+          const captionsKey = {
+            speech: speechKey,
+            whisperModel: this.config.whisperModel,
+            whisperMultilingualModel: this.config.whisperMultilingualModel,
+            language: sceneSpeech.language,
+          };
+          let transcribed = await this.cache.get<Caption[]>("captions", captionsKey);
+          if (!transcribed) {
+            transcribed = await this.whisper.CreateCaption(tempWavPath, signal, sceneSpeech.language);
+            await this.cache.set("captions", captionsKey, transcribed);
+          }
+          // captions read the scene text without markup, in its original spelling
+          const captions = assignSpeakers(alignCaptions(transcribed, sceneSpeech.displayText), turns);
+          this.jobStore.addStageDuration(videoId, "captions", Date.now() - captionsStartedAt);
+
+          return { audioLength, captions };
+        });
+        const { captions } = speech;
+        let { audioLength } = speech;
 
-        // Progress: 30-40% for subtitles generation
-        const subtitlesProgress = 30 + (index / totalScenes) * 10;
-        this.updateProgress(videoId, subtitlesProgress, `Generating subtitles for scene ${index + 1}/${totalScenes}...`);
+        // add the paddingBack in seconds to the last scene
+        if (index + 1 === inputScenes.length && config.paddingBack) {
+          audioLength += config.paddingBack / 1000;
+        }
 
-        const captions = await this.whisper.CreateCaption(tempWavPath);
-        await this.ffmpeg.saveToMp3(audioStream, tempMp3Path);
+        signal.throwIfAborted();
 
         // Progress: 40-50% for media acquisition
         const mediaProgress = 40 + (index / totalScenes) * 10;
         this.updateProgress(videoId, mediaProgress, `Getting media for scene ${index + 1}/${totalScenes}...`);
+        const mediaStartedAt = Date.now();
 
         // Determine content source (backward compatibility)
         let contentSource;
@@ -325,6 +892,8 @@ export class ShortCreator {
           logger.debug({ effectCount: processedEffects.length }, "Processed scene effects");
         }
 
+        this.jobStore.addStageDuration(videoId, "media", Date.now() - mediaStartedAt);
+
         // Build scene object
         const sceneData: any = {
           captions,
@@ -377,7 +946,16 @@ export class ShortCreator {
         totalDuration += audioLength;
         index++;
       } catch (error) {
-        logger.error({ error, sceneIndex: index }, "Error processing scene");
+        if (!isJobCancelled(error)) {
+          logger.error({ error, sceneIndex: index }, "Error processing scene");
+          this.jobStore.update(videoId, {
+            error: {
+              message: error instanceof Error ? error.message : String(error),
+              sceneIndex: index,
+            },
+          });
+        }
+        await this.cleanupJobResources(tempFiles, contentSources, effectManagers);
         throw error;
       }
     }
@@ -389,13 +967,171 @@ export class ShortCreator {
     const selectedMusic = this.findMusic(totalDuration, config.music);
     logger.debug({ selectedMusic }, "Selected music for the video");
 
+    const output = resolveOutputSettings(config.output);
+    const renderProps: z.infer<typeof shortVideoSchema> = {
+      music: selectedMusic,
+      scenes,
+      config: {
+        durationMs: totalDuration * 1000,
+        fps: output.fps,
+        paddingBack: config.paddingBack,
+        captionBackgroundColor: config.captionBackgroundColor,
+        captionPosition: config.captionPosition,
+        musicVolume: config.musicVolume,
+        speakerColors: resolveSpeakerColors(inputScenes, config.speakerColors),
+      },
+    };
+
+    const draft = config.quality === "draft";
+    let keepAssets = false;
+    try {
+      // drafts skip FFmpeg effects, they are applied when the draft is promoted
+      for (const [index, target] of orientations.entries()) {
+        await this.renderVideo(
+          videoId,
+          renderProps,
+          target,
+          this.getVideoPath(videoId, target),
+          output,
+          draft ? [] : allProcessedEffects,
+          signal,
+          draft,
+          { index, count: orientations.length },
+        );
+      }
+
+      if (draft) {
+        // keep audio, media and effect files so promote() can re-render without TTS/Whisper
+        this.jobStore.saveDraft(videoId, {
+          renderProps,
+          orientations,
+          effects: allProcessedEffects,
+          assetPaths: [
+            ...tempFiles,
+            ...effectManagers.flatMap((effectMgr) => effectMgr.getTempFiles()),
+          ],
+        });
+        keepAssets = true;
+      }
+    } finally {
+      if (keepAssets) {
+        await this.cleanupJobResources([], contentSources, []);
+      } else {
+        await this.cleanupJobResources(tempFiles, contentSources, effectManagers);
+      }
+    }
+
+    return totalDuration;
+  }
+
+  /**
+   * Thumbnails are a nice-to-have: a failure is logged and the video still
+   * counts as ready
+   */
+  private async generateThumbnail(
+    videoId: string,
+    config: RenderConfig,
+    durationSeconds: number,
+  ): Promise<void> {
+    this.updateProgress(videoId, 99, "Generating thumbnail...");
+    try {
+      await this.thumbnailGenerator.generate(
+        videoId,
+        this.getVideoPath(videoId),
+        durationSeconds,
+        resolveOrientations(config)[0],
+        config.thumbnail,
+      );
+    } catch (error) {
+      logger.warn({ videoId, error }, "Failed to generate thumbnail");
+    }
+  }
+
+  /**
+   * Full quality render of a draft from its saved render data
+   */
+  private async renderPromotedDraft(
+    videoId: string,
+    config: RenderConfig,
+    signal: AbortSignal,
+  ): Promise<number> {
+    const draft = this.jobStore.getDraft(videoId);
+    if (!draft) {
+      throw new Error("Draft render data is missing");
+    }
+
+    this.updateProgress(videoId, 0, "Re-rendering draft at full quality...");
+    // the draft stays in place until every orientation rendered, so a failed
+    // or cancelled promotion leaves it intact
+    const renders = draft.orientations.map((orientation) => {
+      const videoPath = this.getVideoPath(videoId, orientation);
+      return { videoPath, tempPath: path.join(this.config.tempDirPath, `promote-${path.basename(videoPath)}`) };
+    });
     try {
+      for (const [index, orientation] of draft.orientations.entries()) {
+        await this.renderVideo(
+          videoId,
+          draft.renderProps,
+          orientation,
+          renders[index].tempPath,
+          resolveOutputSettings(config.output),
+          draft.effects,
+          signal,
+          false,
+          { index, count: draft.orientations.length },
+        );
+      }
+      for (const { tempPath, videoPath } of renders) {
+        await fs.move(tempPath, videoPath, { overwrite: true });
+      }
+    } finally {
+      for (const { tempPath } of renders) {
+        fs.removeSync(tempPath);
+      }
+    }
+
+    // the full quality output replaces the draft, its assets are no longer needed
+    await this.cleanupJobResources(draft.assetPaths, [], []);
+    this.jobStore.removeDraft(videoId);
+    return draft.renderProps.config.durationMs / 1000;
+  }
+
+  /**
+   * Render the prepared scenes with Remotion, then apply FFmpeg effect
+   * passes. Draft renders use low-res settings and get no effects.
+   */
+  private async renderVideo(
+    videoId: string,
+    renderProps: z.infer<typeof shortVideoSchema>,
+    orientation: OrientationEnum,
+    videoPath: string,
+    output: OutputSettings,
+    effects: ProcessedEffect[],
+    signal: AbortSignal,
+    draft: boolean,
+    // which of the job's orientations this is, progress is split between them
+    part: { index: number; count: number },
+  ): Promise<void> {
+    // this render's 50-100% mapped onto its share of the job's 50-100%
+    const reportProgress = (percent: number, stage: string) =>
+      this.updateProgress(videoId, 50 + (50 * (part.index + (percent - 50) / 50)) / part.count, stage);
+    // Remotion and the FFmpeg effect passes are limited by the render worker pool
+    if (this.renderSemaphore.activeCount >= this.config.renderConcurrency) {
+      reportProgress(50, "Waiting for a free render slot...");
+    }
+    const releaseRenderSlot = await this.renderSemaphore.acquire();
+    // FFmpeg post-processing outputs are tracked per job so cancellation can remove them
+    const postEffectManager = new EffectManager(this.config, output);
+
+    try {
+      signal.throwIfAborted();
+
       // Debug: Log that we're reaching overlay detection
       logger.info(
         {
           videoId,
-          sceneCount: scenes.length,
-          totalDuration,
+          sceneCount: renderProps.scenes.length,
+          durationMs: renderProps.config.durationMs,
           aboutToRunOverlayDetection: true,
         },
         "About to start overlay detection"
@@ -405,8 +1141,8 @@ export class ShortCreator {
       logger.info(
         {
           videoId,
-          sceneCount: scenes.length,
-          scenes: scenes.map((s, i) => ({
+          sceneCount: renderProps.scenes.length,
+          scenes: renderProps.scenes.map((s, i) => ({
             index: i,
             hasEffects: !!(s as any).effects,
             effectCount: (s as any).effects?.length || 0,
@@ -425,42 +1161,35 @@ export class ShortCreator {
       // IMPORTANT: Always use standard renderer WITHOUT effects
       // Effects will be applied via FFmpeg post-processing
       // ========================================
-      logger.info({ videoId, effectCount: allProcessedEffects.length }, "Using standard renderer (effects via FFmpeg post-processing)");
+      logger.info({ videoId, effectCount: effects.length }, "Using standard renderer (effects via FFmpeg post-processing)");
 
       // Progress: 50-85% for Remotion rendering
-      this.updateProgress(videoId, 50, "Rendering video with Remotion...");
+      reportProgress(50, draft ? "Rendering draft preview..." : "Rendering video with Remotion...");
 
       // Use standard Remotion renderer (NO effects in Remotion)
-      await this.remotion.render(
-        {
-          music: selectedMusic,
-          scenes,
-          config: {
-            durationMs: totalDuration * 1000,
-            paddingBack: config.paddingBack,
-            captionBackgroundColor: config.captionBackgroundColor,
-            captionPosition: config.captionPosition,
-            musicVolume: config.musicVolume,
-          },
-        },
-        videoId,
-        orientation,
-      );
+      const renderStartedAt = Date.now();
+      await this.remotion.render(renderProps, videoId, orientation, signal, {
+        draft,
+        output,
+        outputLocation: videoPath,
+      });
 
-      this.updateProgress(videoId, 85, "Remotion rendering complete!");
+      this.jobStore.addStageDuration(videoId, "render", Date.now() - renderStartedAt);
+      reportProgress(85, "Remotion rendering complete!");
 
       // ========================================
       // FFmpeg Post-Processing (Blend + Chromakey)
       // ========================================
-      if (allProcessedEffects.length > 0) {
-        logger.info({ videoId, effectCount: allProcessedEffects.length }, "Starting FFmpeg post-processing");
-        this.updateProgress(videoId, 85, "Applying visual effects...");
+      if (effects.length > 0) {
+        logger.info({ videoId, effectCount: effects.length }, "Starting FFmpeg post-processing");
+        reportProgress(85, "Applying visual effects...");
+        const effectsStartedAt = Date.now();
 
-        let currentVideoPath = this.getVideoPath(videoId);
+        let currentVideoPath = videoPath;
 
         // Separate effects by type
-        const blendEffects = allProcessedEffects.filter(e => e.type === "blend");
-        const bannerEffects = allProcessedEffects.filter(e => e.type === "banner_overlay");
+        const blendEffects = effects.filter((e): e is ProcessedBlendEffect => e.type === "blend");
+        const bannerEffects = effects.filter((e): e is ProcessedBannerEffect => e.type === "banner_overlay");
         const totalEffects = blendEffects.length + bannerEffects.length;
         let effectIndex = 0;
 
@@ -468,7 +1197,7 @@ export class ShortCreator {
         for (const effect of blendEffects) {
           effectIndex++;
           const effectProgress = 85 + ((effectIndex / totalEffects) * 10);
-          this.updateProgress(videoId, effectProgress, `Applying effect ${effectIndex}/${totalEffects}...`);
+          reportProgress(effectProgress, `Applying effect ${effectIndex}/${totalEffects}...`);
 
           logger.info({
             blendMode: effect.blendMode,
@@ -476,17 +1205,20 @@ export class ShortCreator {
             overlayPath: effect.localPath
           }, "Applying FFmpeg blend overlay");
 
-          const outputPath = await this.effectManager.applyBlendOverlay(
+          const { width, height } = getOrientationConfig(orientation);
+          const outputPath = await postEffectManager.applyBlendOverlay(
             currentVideoPath,
             effect.localPath,
-            effect.blendMode,
+            // checked against BlendModeEnum when the request was validated
+            effect.blendMode as Parameters<EffectManager["applyBlendOverlay"]>[2],
             effect.opacity,
-            orientation === OrientationEnum.portrait ? 1080 : 1920,
-            orientation === OrientationEnum.portrait ? 1920 : 1080
+            Math.round(width * output.scale),
+            Math.round(height * output.scale),
+            signal
           );
 
           // Replace original with blended version
-          if (currentVideoPath !== this.getVideoPath(videoId)) {
+          if (currentVideoPath !== videoPath) {
             // Clean up intermediate file
             fs.removeSync(currentVideoPath);
           }
@@ -499,7 +1231,7 @@ export class ShortCreator {
         for (const effect of bannerEffects) {
           effectIndex++;
           const effectProgress = 85 + ((effectIndex / totalEffects) * 10);
-          this.updateProgress(videoId, effectProgress, `Applying banner ${effectIndex}/${totalEffects}...`);
+          reportProgress(effectProgress, `Applying banner ${effectIndex}/${totalEffects}...`);
 
           logger.info({
             chromakey: effect.chromakey,
@@ -507,18 +1239,19 @@ export class ShortCreator {
             bannerPath: effect.localPath
           }, "Applying FFmpeg banner chromakey");
 
-          const outputPath = await this.effectManager.applyBannerChromakey(
+          const outputPath = await postEffectManager.applyBannerChromakey(
             currentVideoPath,
             effect.localPath,
             effect.chromakey.similarity,
             effect.chromakey.blend,
             effect.position,
             effect.duration,
-            orientation
+            orientation,
+            signal
           );
 
           // Replace original with chromakeyed version
-          if (currentVideoPath !== this.getVideoPath(videoId)) {
+          if (currentVideoPath !== videoPath) {
             // Clean up intermediate file
             fs.removeSync(currentVideoPath);
           }
@@ -528,70 +1261,320 @@ export class ShortCreator {
         }
 
         // Replace final video
-        const finalVideoPath = this.getVideoPath(videoId);
-        if (currentVideoPath !== finalVideoPath) {
-          await fs.move(currentVideoPath, finalVideoPath, { overwrite: true });
-          logger.info({ finalVideoPath }, "FFmpeg post-processing complete, final video saved");
+        if (currentVideoPath !== videoPath) {
+          await fs.move(currentVideoPath, videoPath, { overwrite: true });
+          logger.info({ finalVideoPath: videoPath }, "FFmpeg post-processing complete, final video saved");
         }
+        this.jobStore.addStageDuration(videoId, "effects", Date.now() - effectsStartedAt);
 
-        this.updateProgress(videoId, 95, "Effects applied successfully!");
+        reportProgress(95, "Effects applied successfully!");
       } else {
         // No effects, skip to finalization
-        this.updateProgress(videoId, 95, "Finalizing video...");
+        reportProgress(95, "Finalizing video...");
       }
 
       // Final progress update
-      this.updateProgress(videoId, 100, "Video complete!");
+      reportProgress(100, "Video complete!");
     } finally {
-      // Cleanup temp files
-      for (const file of tempFiles) {
-        try {
-          fs.removeSync(file);
-        } catch (error) {
-          logger.warn({ file, error }, "Failed to remove temp file");
-        }
-      }
+      releaseRenderSlot();
+      await this.cleanupJobResources([], [], [postEffectManager]);
+    }
+  }
 
-      // Cleanup content sources
-      for (const source of contentSources) {
-        if (source.cleanup) {
-          try {
-            await source.cleanup();
-          } catch (error) {
-            logger.warn({ error }, "Failed to cleanup content source");
-          }
-        }
+  /**
+   * Remove per-job temp files, downloaded media and effect intermediates
+   */
+  private async cleanupJobResources(
+    tempFiles: string[],
+    contentSources: Array<{ cleanup?: () => Promise<void> }>,
+    effectManagers: EffectManager[],
+  ): Promise<void> {
+    // Cleanup temp files
+    for (const file of tempFiles) {
+      try {
+        fs.removeSync(file);
+      } catch (error) {
+        logger.warn({ file, error }, "Failed to remove temp file");
       }
+    }
 
-      // Cleanup effect managers
-      for (const effectMgr of effectManagers) {
+    // Cleanup content sources
+    for (const source of contentSources) {
+      if (source.cleanup) {
         try {
-          await effectMgr.cleanup();
+          await source.cleanup();
         } catch (error) {
-          logger.warn({ error }, "Failed to cleanup effect manager");
+          logger.warn({ error }, "Failed to cleanup content source");
         }
       }
     }
 
-    return totalDuration;
+    // Cleanup effect managers
+    for (const effectMgr of effectManagers) {
+      try {
+        await effectMgr.cleanup();
+      } catch (error) {
+        logger.warn({ error }, "Failed to cleanup effect manager");
+      }
+    }
+  }
+
+  /**
+   * Path of a rendered video. Extra orientations of a multi-format job are
+   * stored next to the primary output as <id>.<orientation>.<ext>
+   */
+  public getVideoPath(videoId: string, orientation?: OrientationEnum): string {
+    const record = this.jobStore.get(videoId);
+    const container = record?.container ?? "mp4";
+    const primary = record?.orientations?.[0];
+    const suffix = orientation && primary && orientation !== primary ? `.${orientation}` : "";
+    return path.join(this.config.videosDirPath, `${videoId}${suffix}.${container}`);
+  }
+
+  /**
+   * Rendered files of a video, one per orientation
+   */
+  public getVideoOutputs(videoId: string): { orientation: OrientationEnum; path: string }[] {
+    const orientations = this.jobStore.get(videoId)?.orientations ?? [];
+    return orientations
+      .map((orientation) => ({ orientation, path: this.getVideoPath(videoId, orientation) }))
+      .filter((output) => fs.existsSync(output.path));
   }
 
-  public getVideoPath(videoId: string): string {
-    return path.join(this.config.videosDirPath, `${videoId}.mp4`);
+  private getOutputUrls(videoId: string): VideoOutput[] {
+    return this.getVideoOutputs(videoId).map(({ orientation }) => ({
+      orientation,
+      downloadUrl: `${this.config.publicUrl}/api/short-video/${videoId}/outputs/${orientation}`,
+    }));
   }
 
-  public deleteVideo(videoId: string): void {
-    const videoPath = this.getVideoPath(videoId);
-    fs.removeSync(videoPath);
+  /**
+   * Remove a video and everything kept for it. Queued and rendering videos
+   * are left alone ("busy"): the worker would write the file again after the
+   * record is gone. Cancel them first.
+   */
+  public deleteVideo(videoId: string): "deleted" | "busy" {
+    if (this.queue.some((item) => item.id === videoId)) {
+      return "busy";
+    }
+    for (const output of this.getVideoOutputs(videoId)) {
+      fs.removeSync(output.path);
+    }
+    // an unpromoted draft keeps its audio and media in the temp directory
+    for (const file of this.jobStore.getDraft(videoId)?.assetPaths ?? []) {
+      fs.removeSync(file);
+    }
+    fs.removeSync(this.getVideoPath(videoId));
+    this.thumbnailGenerator.remove(videoId);
+    this.jobLogStore.remove(videoId);
+    this.jobStore.remove(videoId);
     logger.debug({ videoId }, "Deleted video file");
+    return "deleted";
+  }
+
+  public getLexicon(): LexiconEntry[] {
+    return this.lexicon.list();
+  }
+
+  /**
+   * Replace the pronunciation lexicon; applies to jobs that haven't reached TTS yet
+   */
+  public setLexicon(entries: LexiconEntry[]): void {
+    this.lexicon.replace(entries);
+  }
+
+  /**
+   * Scene audio from a recorded voiceover instead of TTS. Captions are
+   * transcribed from it and, when the scene has text, aligned to that text.
+   */
+  private async prepareNarration(
+    videoId: string,
+    narration: Narration,
+    text: string,
+    language: string | undefined,
+    index: number,
+    totalScenes: number,
+    tempWavPath: string,
+    tempMp3Path: string,
+    signal: AbortSignal,
+  ): Promise<{ audioLength: number; captions: Caption[] }> {
+    this.updateProgress(videoId, (index / totalScenes) * 30, `Preparing narration for scene ${index + 1}/${totalScenes}...`);
+    // the recording takes the place of TTS in the stage timings
+    const audioStartedAt = Date.now();
+    const audio = await loadNarration(narration, signal);
+    signal.throwIfAborted();
+    await this.ffmpeg.saveNormalizedAudio(audio, tempWavPath);
+    await this.ffmpeg.saveToMp3(audio, tempMp3Path);
+    const audioLength = getWavDuration(await fs.readFile(tempWavPath));
+    this.jobStore.addStageDuration(videoId, "tts", Date.now() - audioStartedAt);
+
+    signal.throwIfAborted();
+    const captionsStartedAt = Date.now();
+    this.updateProgress(videoId, 30 + (index / totalScenes) * 10, `Generating subtitles for scene ${index + 1}/${totalScenes}...`);
+    const captionsKey = {
+      narration: crypto.createHash("sha256").update(Buffer.from(audio)).digest("hex"),
+      whisperModel: this.config.whisperModel,
+      whisperMultilingualModel: this.config.whisperMultilingualModel,
+      language,
+    };
+    let captions = await this.cache.get<Caption[]>("captions", captionsKey);
+    if (!captions) {
+      captions = await this.whisper.CreateCaption(tempWavPath, signal, language);
+      await this.cache.set("captions", captionsKey, captions);
+    }
+    if (text.trim()) {
+      captions = alignCaptions(captions, parseSpeechMarkup(text).displayText);
+    }
+    this.jobStore.addStageDuration(videoId, "captions", Date.now() - captionsStartedAt);
+
+    return { audioLength, captions };
+  }
+
+  public getCacheStats(): Promise<CacheStats> {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Drop cached speech and captions, all of them or one namespace
+   * ("speech", "speech-wav", "speech-mp3", "captions")
+   */
+  public clearCache(namespace?: string): Promise<{ entries: number; bytes: number }> {
+    return this.cache.clear(namespace);
   }
 
-  public getVideo(videoId: string): Buffer {
-    const videoPath = this.getVideoPath(videoId);
-    if (!fs.existsSync(videoPath)) {
-      throw new Error(`Video ${videoId} not found`);
+  /**
+   * Everything that changes the synthesized audio. The display text isn't
+   * part of it: captions are aligned to it after the cache lookup.
+   */
+  private getSpeechCacheKey(speech: SceneSpeech): object {
+    return {
+      provider: speech.provider.name,
+      engine: speech.provider.cacheKey(),
+      segments: speech.segments.map(({ parts, voice, speaker }) => ({ parts, voice, speaker })),
+      gapMs: speech.gapMs,
+      voiceSpeed: speech.voiceSpeed,
+    };
+  }
+
+  private async cacheSpeech(key: object, speech: CachedSpeech, wavPath: string, mp3Path: string): Promise<void> {
+    try {
+      await this.cache.setFile("speech-wav", key, wavPath);
+      await this.cache.setFile("speech-mp3", key, mp3Path);
+      // written last: its presence means the audio files are complete
+      await this.cache.set("speech", key, speech);
+    } catch (error) {
+      logger.warn({ error }, "Failed to cache speech, continuing without it");
     }
-    return fs.readFileSync(videoPath);
+  }
+
+  /**
+   * Pin (or unpin) a video so retention never evicts it. False when the
+   * video has no job record.
+   */
+  public pinVideo(videoId: string, pinned: boolean): boolean {
+    if (!this.jobStore.get(videoId)) {
+      return false;
+    }
+    this.jobStore.update(videoId, { pinned });
+    logger.info({ videoId, pinned }, "Video pin changed");
+    return true;
+  }
+
+  /**
+   * Start periodic retention runs (see RetentionManager)
+   */
+  public startRetention(): void {
+    this.retentionManager.start();
+  }
+
+  public getStorageUsage(): Promise<StorageUsage> {
+    return this.retentionManager.usage();
+  }
+
+  /**
+   * Directory sizes as of the last background measurement
+   */
+  public getWorkspaceUsage(): Promise<WorkspaceUsage> {
+    return this.retentionManager.workspaceUsage();
+  }
+
+  /**
+   * Finished videos with their size and age. Videos rendered before the job
+   * store existed have no record and are dated by their file.
+   */
+  private listRetentionCandidates(): RetentionCandidate[] {
+    const candidates: RetentionCandidate[] = [];
+    const fileSize = (filePath: string) =>
+      fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+
+    for (const record of this.jobStore.list()) {
+      if (
+        record.state === "queued" ||
+        record.state === "processing" ||
+        this.runningJobs.has(record.id)
+      ) {
+        continue;
+      }
+      const outputBytes = this.getVideoOutputs(record.id).reduce(
+        (sum, output) => sum + fileSize(output.path),
+        0,
+      );
+      candidates.push({
+        id: record.id,
+        bytes: outputBytes + fileSize(this.thumbnailGenerator.getPath(record.id)),
+        finishedAt: Date.parse(record.finishedAt ?? record.updatedAt),
+        pinned: record.pinned === true,
+      });
+    }
+
+    for (const file of fs.readdirSync(this.config.videosDirPath)) {
+      const extension = path.extname(file);
+      const id = path.basename(file, extension);
+      if (!VIDEO_EXTENSIONS.includes(extension) || id.includes(".") || this.jobStore.get(id)) {
+        continue;
+      }
+      const stats = fs.statSync(path.join(this.config.videosDirPath, file));
+      candidates.push({
+        id,
+        bytes: stats.size + fileSize(this.thumbnailGenerator.getPath(id)),
+        finishedAt: stats.mtimeMs,
+        pinned: false,
+      });
+    }
+    return candidates;
+  }
+
+  private getDraftAssetPaths(): Set<string> {
+    const paths = new Set<string>();
+    for (const record of this.jobStore.list()) {
+      if (record.quality === "draft") {
+        this.jobStore.getDraft(record.id)?.assetPaths.forEach((file) => paths.add(file));
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Path of the video's log file, undefined if it never started rendering
+   */
+  public getJobLogPath(videoId: string): string | undefined {
+    return this.jobLogStore.exists(videoId) ? this.jobLogStore.getPath(videoId) : undefined;
+  }
+
+  /**
+   * Last lines of the video's log, undefined if it has none
+   */
+  public getJobLogTail(videoId: string, lines: number): string | undefined {
+    return this.jobLogStore.tail(videoId, lines);
+  }
+
+  /**
+   * Path of the video's thumbnail, undefined if it has none (yet)
+   */
+  public getThumbnailPath(videoId: string): string | undefined {
+    return this.thumbnailGenerator.exists(videoId)
+      ? this.thumbnailGenerator.getPath(videoId)
+      : undefined;
   }
 
   private findMusic(videoDuration: number, tag?: MusicMoodEnum): MusicForVideo {
@@ -612,44 +1595,43 @@ export class ShortCreator {
     return Array.from(tags.values());
   }
 
-  public listAllVideos(): { id: string; status: VideoStatus }[] {
-    const videos: { id: string; status: VideoStatus }[] = [];
-
-    // Check if videos directory exists
-    if (!fs.existsSync(this.config.videosDirPath)) {
-      return videos;
-    }
-
-    // Read all files in the videos directory
-    const files = fs.readdirSync(this.config.videosDirPath);
-
-    // Filter for MP4 files and extract video IDs
-    for (const file of files) {
-      if (file.endsWith(".mp4")) {
-        const videoId = file.replace(".mp4", "");
-
-        let status: VideoStatus = "ready";
-        const inQueue = this.queue.find((item) => item.id === videoId);
-        if (inQueue) {
-          status = "processing";
+  public listAllVideos(): { id: string; status: VideoStatus; thumbnailUrl?: string }[] {
+    const videos: Map<string, VideoStatus> = new Map();
+
+    // Rendered files first: videos from before the job store have no record
+    if (fs.existsSync(this.config.videosDirPath)) {
+      const files = fs.readdirSync(this.config.videosDirPath);
+      for (const file of files) {
+        const extension = path.extname(file);
+        const id = path.basename(file, extension);
+        // <id>.<orientation>.<ext> files are extra outputs of a multi-format job
+        if (VIDEO_EXTENSIONS.includes(extension) && !id.includes(".")) {
+          videos.set(id, "ready");
         }
-
-        videos.push({ id: videoId, status });
       }
     }
 
-    // Add videos that are in the queue but not yet rendered
-    for (const queueItem of this.queue) {
-      const existingVideo = videos.find((v) => v.id === queueItem.id);
-      if (!existingVideo) {
-        videos.push({ id: queueItem.id, status: "processing" });
+    // Job records know about queued, failed and cancelled videos too
+    for (const record of this.jobStore.list()) {
+      const info = this.status(record.id);
+      if (info) {
+        videos.set(record.id, info.status);
       }
     }
 
-    return videos;
+    return Array.from(videos, ([id, status]) => ({
+      id,
+      status,
+      ...(this.thumbnailGenerator.exists(id) && {
+        thumbnailUrl: `${this.config.publicUrl}/api/short-video/${id}/thumbnail`,
+      }),
+    }));
   }
 
-  public ListAvailableVoices(): string[] {
-    return this.kokoro.listAvailableVoices();
+  /**
+   * Voices of every TTS provider, keyed by provider name
+   */
+  public ListAvailableVoices(): Record<string, TtsVoice[]> {
+    return this.tts.listVoicesByProvider();
   }
 }
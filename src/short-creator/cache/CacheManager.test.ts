@@ -0,0 +1,50 @@
+import { test, expect } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { CacheManager } from "./CacheManager";
+import type { Config } from "../../config";
+
+test("evicts the least recently used entries once over the size limit", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+  const config = {
+    cacheDirPath: path.join(root, "cache"),
+    // three ~100 byte entries fit, a fourth doesn't
+    cacheMaxBytes: 350,
+  } as Config;
+  const cache = new CacheManager(config);
+  const value = "x".repeat(96);
+
+  for (const [index, key] of ["a", "b", "c"].entries()) {
+    await cache.set("speech", key, value);
+    // oldest first: a, b, c
+    const time = new Date(Date.now() - (10 - index) * 60 * 1000);
+    for (const name of fs.readdirSync(config.cacheDirPath)) {
+      if (fs.statSync(path.join(config.cacheDirPath, name)).mtimeMs > Date.now() - 5000) {
+        fs.utimesSync(path.join(config.cacheDirPath, name), time, time);
+      }
+    }
+  }
+
+  // reading "a" makes "b" the least recently used
+  expect(await cache.get("speech", "a")).toBe(value);
+  await cache.set("captions", "d", value);
+
+  expect(await cache.has("speech", "a")).toBe(true);
+  expect(await cache.has("speech", "b")).toBe(false);
+  expect(await cache.has("speech", "c")).toBe(true);
+  expect(await cache.get("speech", "b")).toBeNull();
+
+  const stats = await cache.getStats();
+  expect(stats.entries).toBe(3);
+  expect(stats.namespaces.speech.entries).toBe(2);
+  expect(stats.namespaces.captions.entries).toBe(1);
+  expect(stats.hits).toBe(1);
+  expect(stats.misses).toBe(1);
+
+  expect((await cache.clear("speech")).entries).toBe(2);
+  expect((await cache.getStats()).entries).toBe(1);
+
+  fs.removeSync(root);
+});
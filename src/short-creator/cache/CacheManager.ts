@@ -1,7 +1,10 @@
 /**
  * Cache Manager
- * 
- * Simple file-based caching system for Pexels videos and TTS audio
+ *
+ * Simple file-based caching system for TTS audio and Whisper captions.
+ * Entries are content-addressed (namespace + hash of the key data) and
+ * bounded by config.cacheMaxBytes: reading an entry refreshes its mtime, and
+ * the least recently used entries are evicted once the cache is too big.
  */
 
 import path from "path";
@@ -10,11 +13,32 @@ import crypto from "crypto";
 import { logger } from "../../logger";
 import { Config } from "../../config";
 
+interface CacheEntryInfo {
+  name: string;
+  namespace: string;
+  bytes: number;
+  lastUsedMs: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  namespaces: Record<string, { entries: number; bytes: number }>;
+  /** Since the server started */
+  hits: number;
+  misses: number;
+}
+
 export class CacheManager {
   private cacheDir: string;
+  private maxBytes: number;
+  private hits = 0;
+  private misses = 0;
 
   constructor(private config: Config) {
     this.cacheDir = config.cacheDirPath;
+    this.maxBytes = config.cacheMaxBytes;
     this.ensureCacheDir();
   }
 
@@ -34,6 +58,29 @@ export class CacheManager {
     return `${namespace}_${hash.digest("hex")}`;
   }
 
+  /**
+   * Mark an entry as recently used
+   */
+  private async touch(cachePath: string): Promise<void> {
+    const now = new Date();
+    await fs.utimes(cachePath, now, now).catch(() => {
+      // evicted in the meantime, the caller already has the data
+    });
+  }
+
+  /**
+   * Write through a temporary file, so parallel jobs never read half an entry
+   */
+  private async writeAtomic(cachePath: string, write: (tmpPath: string) => Promise<void>): Promise<void> {
+    const tmpPath = `${cachePath}.tmp-${process.pid}-${crypto.randomBytes(4).toString("hex")}`;
+    try {
+      await write(tmpPath);
+      await fs.rename(tmpPath, cachePath);
+    } finally {
+      await fs.remove(tmpPath);
+    }
+  }
+
   /**
    * Check if cache entry exists
    */
@@ -53,6 +100,8 @@ export class CacheManager {
     try {
       if (await this.has(namespace, key)) {
         const data = await fs.readJSON(cachePath);
+        await this.touch(cachePath);
+        this.hits++;
         logger.debug({ namespace, cacheKey }, "Cache hit");
         return data;
       }
@@ -60,6 +109,7 @@ export class CacheManager {
       logger.warn({ namespace, cacheKey, error }, "Failed to read cache");
     }
 
+    this.misses++;
     logger.debug({ namespace, cacheKey }, "Cache miss");
     return null;
   }
@@ -72,8 +122,9 @@ export class CacheManager {
     const cachePath = path.join(this.cacheDir, cacheKey);
 
     try {
-      await fs.writeJSON(cachePath, value);
+      await this.writeAtomic(cachePath, (tmpPath) => fs.writeJSON(tmpPath, value));
       logger.debug({ namespace, cacheKey }, "Cached data");
+      await this.evict();
     } catch (error) {
       logger.warn({ namespace, cacheKey, error }, "Failed to write cache");
     }
@@ -87,10 +138,13 @@ export class CacheManager {
     const cachePath = path.join(this.cacheDir, `${cacheKey}.file`);
 
     if (fs.existsSync(cachePath)) {
+      await this.touch(cachePath);
+      this.hits++;
       logger.debug({ namespace, cacheKey }, "File cache hit");
       return cachePath;
     }
 
+    this.misses++;
     logger.debug({ namespace, cacheKey }, "File cache miss");
     return null;
   }
@@ -103,8 +157,9 @@ export class CacheManager {
     const cachePath = path.join(this.cacheDir, `${cacheKey}.file`);
 
     try {
-      await fs.copy(sourcePath, cachePath);
+      await this.writeAtomic(cachePath, (tmpPath) => fs.copy(sourcePath, tmpPath));
       logger.debug({ namespace, cacheKey, cachePath }, "Cached file");
+      await this.evict();
       return cachePath;
     } catch (error) {
       logger.warn({ namespace, cacheKey, error }, "Failed to cache file");
@@ -113,15 +168,93 @@ export class CacheManager {
   }
 
   /**
-   * Clear all cache
+   * Every finished entry, least recently used first
+   */
+  private async listEntries(): Promise<CacheEntryInfo[]> {
+    const entries: CacheEntryInfo[] = [];
+    for (const name of await fs.readdir(this.cacheDir)) {
+      if (name.includes(".tmp-")) {
+        continue;
+      }
+      try {
+        const stats = await fs.stat(path.join(this.cacheDir, name));
+        entries.push({
+          name,
+          namespace: name.split("_")[0],
+          bytes: stats.size,
+          lastUsedMs: stats.mtimeMs,
+        });
+      } catch {
+        // removed while listing
+      }
+    }
+    return entries.sort((a, b) => a.lastUsedMs - b.lastUsedMs);
+  }
+
+  /**
+   * Remove least recently used entries until the cache fits config.cacheMaxBytes
    */
-  async clear(): Promise<void> {
+  async evict(): Promise<{ entries: number; bytes: number }> {
+    const evicted = { entries: 0, bytes: 0 };
+    if (this.maxBytes <= 0) {
+      return evicted;
+    }
+    const entries = await this.listEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await fs.remove(path.join(this.cacheDir, entry.name));
+      total -= entry.bytes;
+      evicted.entries++;
+      evicted.bytes += entry.bytes;
+    }
+    if (evicted.entries > 0) {
+      logger.debug({ ...evicted, maxBytes: this.maxBytes }, "Evicted least recently used cache entries");
+    }
+    return evicted;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const namespaces: CacheStats["namespaces"] = {};
+    let bytes = 0;
+    const entries = await this.listEntries();
+    for (const entry of entries) {
+      namespaces[entry.namespace] ??= { entries: 0, bytes: 0 };
+      namespaces[entry.namespace].entries++;
+      namespaces[entry.namespace].bytes += entry.bytes;
+      bytes += entry.bytes;
+    }
+    return {
+      entries: entries.length,
+      bytes,
+      maxBytes: this.maxBytes,
+      namespaces,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  /**
+   * Clear all cache, or one namespace of it
+   */
+  async clear(namespace?: string): Promise<{ entries: number; bytes: number }> {
+    const removed = { entries: 0, bytes: 0 };
     try {
-      await fs.emptyDir(this.cacheDir);
-      logger.info("Cleared all cache");
+      for (const entry of await this.listEntries()) {
+        if (namespace && entry.namespace !== namespace) {
+          continue;
+        }
+        await fs.remove(path.join(this.cacheDir, entry.name));
+        removed.entries++;
+        removed.bytes += entry.bytes;
+      }
+      logger.info({ namespace, ...removed }, "Cleared cache");
     } catch (error) {
       logger.error({ error }, "Failed to clear cache");
     }
+    return removed;
   }
 
   /**
@@ -144,4 +277,3 @@ export class CacheManager {
     return totalSize;
   }
 }
-
@@ -0,0 +1,35 @@
+import { test, expect } from "vitest";
+
+import { alignCaptions } from "./alignCaptions";
+
+test("keeps the reference spelling with the transcribed timings", () => {
+  const transcribed = [
+    { text: " The", startMs: 0, endMs: 200 },
+    { text: " jif", startMs: 200, endMs: 600 },
+    { text: " loaded", startMs: 600, endMs: 1000 },
+    { text: " so", startMs: 1000, endMs: 1100 },
+    { text: " fast.", startMs: 1100, endMs: 1500 },
+  ];
+
+  expect(alignCaptions(transcribed, "The GIF loaded fast!")).toEqual([
+    { text: " The", startMs: 0, endMs: 200 },
+    { text: " GIF", startMs: 200, endMs: 600 },
+    // the extra heard word is folded into the word before it
+    { text: " loaded", startMs: 600, endMs: 1100 },
+    { text: " fast!", startMs: 1100, endMs: 1500 },
+  ]);
+});
+
+test("spreads words Whisper missed over the gap around them", () => {
+  const transcribed = [
+    { text: " Detective", startMs: 0, endMs: 500 },
+    { text: " arrived.", startMs: 1500, endMs: 2000 },
+  ];
+
+  expect(alignCaptions(transcribed, "Detective Okonkwo-Smith arrived.")).toEqual([
+    { text: " Detective", startMs: 0, endMs: 500 },
+    { text: " Okonkwo-Smith", startMs: 500, endMs: 1500 },
+    { text: " arrived.", startMs: 1500, endMs: 2000 },
+  ]);
+  expect(alignCaptions([], "anything")).toEqual([]);
+});
@@ -0,0 +1,112 @@
+/**
+ * Caption Alignment
+ *
+ * Whisper transcribes what it hears, which isn't always what the scene says:
+ * respelled words ("jif" for "GIF"), misheard names, numbers written out.
+ * When the text is known, its words are matched to the transcribed words
+ * (edit distance over normalized words) and take over their timings, so the
+ * captions show the original spelling.
+ */
+
+import type { Caption } from "../../types/shorts";
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Match reference words to transcribed words. Returns, for every reference
+ * word, the indexes of the transcribed words it covers (possibly none).
+ */
+function matchWords(reference: string[], heard: string[]): number[][] {
+  const n = reference.length;
+  const m = heard.length;
+  // cost[i][j]: aligning reference[0..i) with heard[0..j)
+  const cost: number[][] = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const substitution = reference[i - 1] === heard[j - 1] ? 0 : 1;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution,
+        cost[i - 1][j] + 1, // reference word not heard
+        cost[i][j - 1] + 1, // extra heard word
+      );
+    }
+  }
+
+  const matches: number[][] = reference.map(() => []);
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (reference[i - 1] === heard[j - 1] ? 0 : 1)) {
+      matches[i - 1].push(j - 1);
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      i--;
+    } else {
+      // an extra heard word belongs to the reference word before it
+      matches[Math.max(0, i - 1)].push(j - 1);
+      j--;
+    }
+  }
+  return matches.map((covered) => covered.sort((a, b) => a - b));
+}
+
+/**
+ * Captions with the words of `referenceText` and the timings of the
+ * transcribed captions. Words Whisper missed share the gap around them.
+ */
+export function alignCaptions(captions: Caption[], referenceText: string): Caption[] {
+  const words = referenceText.split(/\s+/).filter(Boolean);
+  if (captions.length === 0 || words.length === 0) {
+    return captions;
+  }
+
+  const matches = matchWords(
+    words.map(normalizeWord),
+    captions.map((caption) => normalizeWord(caption.text)),
+  );
+
+  const timed: (Caption | undefined)[] = words.map((word, index) => {
+    const covered = matches[index];
+    if (covered.length === 0) {
+      return undefined;
+    }
+    return {
+      text: ` ${word}`,
+      startMs: captions[covered[0]].startMs,
+      endMs: captions[covered[covered.length - 1]].endMs,
+    };
+  });
+
+  // spread runs of unheard words over the time between their neighbours
+  const result: Caption[] = [];
+  let index = 0;
+  while (index < words.length) {
+    const caption = timed[index];
+    if (caption) {
+      result.push(caption);
+      index++;
+      continue;
+    }
+    let end = index;
+    while (end < words.length && !timed[end]) {
+      end++;
+    }
+    const startMs = result.length > 0 ? result[result.length - 1].endMs : captions[0].startMs;
+    const endMs = timed[end]?.startMs ?? captions[captions.length - 1].endMs;
+    const step = Math.max(0, endMs - startMs) / (end - index);
+    for (let missing = index; missing < end; missing++) {
+      result.push({
+        text: ` ${words[missing]}`,
+        startMs: Math.round(startMs + step * (missing - index)),
+        endMs: Math.round(startMs + step * (missing - index + 1)),
+      });
+    }
+    index = end;
+  }
+  return result;
+}
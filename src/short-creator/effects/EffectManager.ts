@@ -13,9 +13,19 @@ import fs from "fs-extra";
 import ffmpeg from "fluent-ffmpeg";
 import { Config } from "../../config";
 import { logger } from "../../logger";
-import type { Effect, BlendEffect, BannerOverlayEffect } from "../../types/shorts";
+import {
+  OrientationEnum,
+  type Effect,
+  type BlendEffect,
+  type BannerOverlayEffect,
+} from "../../types/shorts";
 import { OverlayCache } from "./OverlayCache";
 import { resolvePosition, getVideoDimensions } from "../../components/utils/position";
+import {
+  getFfmpegOutputOptions,
+  resolveOutputSettings,
+  type OutputSettings,
+} from "../output/OutputSettings";
 
 export interface ProcessedBlendEffect {
   type: "blend";
@@ -51,7 +61,13 @@ export type ProcessedEffect = ProcessedBlendEffect | ProcessedBannerEffect;
 export class EffectManager {
   private tempFiles: string[] = [];
 
-  constructor(private config: Config) {}
+  /**
+   * @param output - Encoding of the rendered video; FFmpeg passes keep it unchanged
+   */
+  constructor(
+    private config: Config,
+    private output: OutputSettings = resolveOutputSettings(),
+  ) {}
 
   /**
    * Process effects and download/prepare overlay files
@@ -324,6 +340,13 @@ export class EffectManager {
     return map[mimeType] || ".mp4";
   }
 
+  /**
+   * Files this manager created; they stay on disk until cleanup()
+   */
+  getTempFiles(): string[] {
+    return [...this.tempFiles];
+  }
+
   async cleanup(): Promise<void> {
     logger.debug({ files: this.tempFiles }, "Cleaning up effect temp files");
     for (const file of this.tempFiles) {
@@ -345,6 +368,21 @@ export class EffectManager {
     return `${randomPart}${timePart}`;
   }
 
+  /**
+   * Kill a running FFmpeg command when the signal aborts; returns a detach function
+   */
+  private killOnAbort(command: ffmpeg.FfmpegCommand, signal?: AbortSignal): () => void {
+    if (!signal) {
+      return () => {};
+    }
+    const onAbort = () => {
+      logger.info("Killing FFmpeg overlay command, job was cancelled");
+      command.kill("SIGKILL");
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    return () => signal.removeEventListener("abort", onAbort);
+  }
+
   // ========================================
   // FFmpeg-based Overlay Methods
   // ========================================
@@ -361,6 +399,7 @@ export class EffectManager {
    * @param opacity - Effect opacity (0.0 - 1.0)
    * @param width - Video width (default: 1080)
    * @param height - Video height (default: 1920)
+   * @param signal - Optional abort signal; kills FFmpeg when the job is cancelled
    * @returns Path to output video with blend effect applied
    */
   async applyBlendOverlay(
@@ -369,9 +408,13 @@ export class EffectManager {
     blendMode: "addition" | "screen" | "overlay" | "multiply" | "average" | "lighten" | "darken" | "hardlight" = "addition",
     opacity: number = 0.5,
     width: number = 1080,
-    height: number = 1920
+    height: number = 1920,
+    signal?: AbortSignal
   ): Promise<string> {
-    const outputPath = path.join(this.config.tempDirPath, `blend_${this.generateTempId()}.mp4`);
+    const outputPath = path.join(
+      this.config.tempDirPath,
+      `blend_${this.generateTempId()}.${this.output.container}`,
+    );
 
     logger.info({
       baseVideo,
@@ -387,12 +430,16 @@ export class EffectManager {
       `[base][overlay]blend=all_mode='${blendMode}':all_opacity=${opacity}:shortest=1,format=yuv420p[out]`
     ].join(';');
 
+    signal?.throwIfAborted();
+    // track the output right away so a killed run doesn't leave a partial file behind
+    this.tempFiles.push(outputPath);
+
     return new Promise((resolve, reject) => {
-      ffmpeg()
+      const command = ffmpeg()
         .input(baseVideo)
         .input(overlayVideo)
         .complexFilter(filterComplex)
-        .outputOptions(['-map', '[out]', '-map', '0:a?', '-c:a', 'aac', '-b:a', '192k'])
+        .outputOptions(['-map', '[out]', '-map', '0:a?', ...getFfmpegOutputOptions(this.output)])
         .output(outputPath)
         .on('start', (commandLine) => {
           logger.debug({ commandLine }, "FFmpeg blend command started");
@@ -400,16 +447,26 @@ export class EffectManager {
         .on('progress', (progress) => {
           logger.debug({ progress: progress.percent }, "FFmpeg blend progress");
         })
+        .on('stderr', (line: string) => {
+          logger.debug({ line }, "FFmpeg blend stderr");
+        })
         .on('end', () => {
           logger.info({ outputPath }, "FFmpeg blend overlay completed");
-          this.tempFiles.push(outputPath);
+          detachAbort();
           resolve(outputPath);
         })
-        .on('error', (err) => {
-          logger.error({ error: err.message }, "FFmpeg blend overlay failed");
+        .on('error', (err, _stdout, stderr) => {
+          detachAbort();
+          if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+          }
+          logger.error({ error: err.message, stderr }, "FFmpeg blend overlay failed");
           reject(new Error(`FFmpeg blend overlay failed: ${err.message}`));
-        })
-        .run();
+        });
+
+      const detachAbort = this.killOnAbort(command, signal);
+      command.run();
     });
   }
 
@@ -425,7 +482,8 @@ export class EffectManager {
    * @param blend - Edge softness (0.0 - 1.0, default: 0.2)
    * @param position - Banner position {x, y} - supports pixels (100), percentages ("50%"), or aliases ("left", "center", "right", "top", "bottom")
    * @param duration - Time range for banner appearance (default: "full", or {start: number, end: number} in seconds)
-   * @param orientation - Video orientation ("portrait" or "landscape") for position resolution
+   * @param orientation - Video orientation for position resolution
+   * @param signal - Optional abort signal; kills FFmpeg when the job is cancelled
    * @returns Path to output video with banner overlay applied
    */
   async applyBannerChromakey(
@@ -435,17 +493,25 @@ export class EffectManager {
     blend: number = 0.2,
     position: { x: number | string; y: number | string } = { x: 0, y: 0 },
     duration?: "full" | { start: number; end: number },
-    orientation: "portrait" | "landscape" = "portrait"
+    orientation: OrientationEnum = OrientationEnum.portrait,
+    signal?: AbortSignal
   ): Promise<string> {
-    const outputPath = path.join(this.config.tempDirPath, `banner_${this.generateTempId()}.mp4`);
+    const outputPath = path.join(
+      this.config.tempDirPath,
+      `banner_${this.generateTempId()}.${this.output.container}`,
+    );
 
-    // Resolve position from flexible format (pixels, percentages, aliases) to absolute pixels
+    // Resolve position from flexible format (pixels, percentages, aliases) to absolute pixels.
+    // Positions and banners are authored for 1080p, scaled with the output resolution.
+    const { scale } = this.output;
     const videoDimensions = getVideoDimensions(orientation);
     const resolvedPosition = resolvePosition(
       position as any,
       videoDimensions.width,
       videoDimensions.height
     );
+    resolvedPosition.x = Math.round(resolvedPosition.x * scale);
+    resolvedPosition.y = Math.round(resolvedPosition.y * scale);
 
     logger.info({
       baseVideo,
@@ -466,20 +532,24 @@ export class EffectManager {
       overlayFilter += `:enable='between(t,${duration.start},${duration.end})'`;
     }
 
-    // Banner должен быть уже правильного размера (portrait: 1080x1920, landscape: 1920x1080)
+    // Banner должен быть уже правильного размера (portrait: 1080x1920, landscape: 1920x1080, square: 1080x1080, feed: 1080x1350)
     // Просто убираем greenscreen и накладываем баннер как есть
     const filterComplex = [
-      `[1:v]chromakey=0x00FF00:${similarity}:${blend}[banner]`,
+      `[1:v]${scale !== 1 ? `scale=iw*${scale}:ih*${scale},` : ""}chromakey=0x00FF00:${similarity}:${blend}[banner]`,
       `[0:v][banner]${overlayFilter}[out]`
     ].join(';');
 
+    signal?.throwIfAborted();
+    // track the output right away so a killed run doesn't leave a partial file behind
+    this.tempFiles.push(outputPath);
+
     return new Promise((resolve, reject) => {
-      ffmpeg()
+      const command = ffmpeg()
         .input(baseVideo)
         .input(bannerVideo)
         .inputOptions(['-stream_loop', '-1'])
         .complexFilter(filterComplex)
-        .outputOptions(['-map', '[out]', '-map', '0:a?', '-c:a', 'aac', '-b:a', '192k'])
+        .outputOptions(['-map', '[out]', '-map', '0:a?', ...getFfmpegOutputOptions(this.output)])
         .output(outputPath)
         .on('start', (commandLine) => {
           logger.debug({ commandLine }, "FFmpeg chromakey command started");
@@ -487,16 +557,26 @@ export class EffectManager {
         .on('progress', (progress) => {
           logger.debug({ progress: progress.percent }, "FFmpeg chromakey progress");
         })
+        .on('stderr', (line: string) => {
+          logger.debug({ line }, "FFmpeg chromakey stderr");
+        })
         .on('end', () => {
           logger.info({ outputPath }, "FFmpeg chromakey banner completed");
-          this.tempFiles.push(outputPath);
+          detachAbort();
           resolve(outputPath);
         })
-        .on('error', (err) => {
-          logger.error({ error: err.message }, "FFmpeg chromakey banner failed");
+        .on('error', (err, _stdout, stderr) => {
+          detachAbort();
+          if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+          }
+          logger.error({ error: err.message, stderr }, "FFmpeg chromakey banner failed");
           reject(new Error(`FFmpeg chromakey banner failed: ${err.message}`));
-        })
-        .run();
+        });
+
+      const detachAbort = this.killOnAbort(command, signal);
+      command.run();
     });
   }
 }
@@ -31,8 +31,8 @@ export class FFMpeg {
           logger.debug("Audio normalization complete");
           resolve(outputPath);
         })
-        .on("error", (error: unknown) => {
-          logger.error(`Error normalizing audio: ${String(error)}`);
+        .on("error", (error: Error, _stdout: string | null, stderr: string | null) => {
+          logger.error({ stderr }, `Error normalizing audio: ${String(error)}`);
           reject(error);
         })
         .save(outputPath);
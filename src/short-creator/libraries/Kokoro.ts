@@ -5,26 +5,42 @@ import {
   type Voices,
 } from "../../types/shorts";
 import { KOKORO_MODEL, logger } from "../../config";
+import {
+  voicesSupportLanguage,
+  type TtsProvider,
+  type TtsResult,
+  type TtsVoice,
+} from "../tts/TtsProvider";
+import { joinWav, toArrayBuffer } from "../tts/wav";
+
+// the first letter of a Kokoro voice is the accent, the second the gender
+const KOKORO_LANGUAGES: Record<string, string> = { a: "en-US", b: "en-GB" };
 
-export class Kokoro {
-  constructor(private tts: KokoroTTS) {}
+export class Kokoro implements TtsProvider {
+  readonly name = "kokoro";
+  readonly defaultVoice: Voices = "af_heart";
+
+  constructor(
+    private tts: KokoroTTS,
+    private dtype: kokoroModelPrecision,
+  ) {}
 
   async generate(
     text: string,
-    voice: Voices,
-  ): Promise<{
-    audio: ArrayBuffer;
-    audioLength: number;
-  }> {
+    voice: string,
+    signal?: AbortSignal,
+  ): Promise<TtsResult> {
     const splitter = new TextSplitterStream();
     const stream = this.tts.stream(splitter, {
-      voice,
+      voice: voice as Voices,
     });
     splitter.push(text);
     splitter.close();
 
     const output = [];
     for await (const audio of stream) {
+      // stop between sentence chunks if the job was cancelled
+      signal?.throwIfAborted();
       output.push(audio);
     }
 
@@ -44,21 +60,13 @@ export class Kokoro {
     };
   }
 
-  static concatWavBuffers(buffers: ArrayBuffer[]): ArrayBuffer {
-    const header = Buffer.from(buffers[0].slice(0, 44));
-    let totalDataLength = 0;
-
-    const dataParts = buffers.map((buf) => {
-      const b = Buffer.from(buf);
-      const data = b.slice(44);
-      totalDataLength += data.length;
-      return data;
-    });
-
-    header.writeUInt32LE(36 + totalDataLength, 4);
-    header.writeUInt32LE(totalDataLength, 40);
-
-    return Buffer.concat([header, ...dataParts]).buffer;
+  /**
+   * Join WAV buffers of the same format; `{ silenceMs }` entries insert silence
+   */
+  static concatWavBuffers(buffers: Array<ArrayBuffer | { silenceMs: number }>): ArrayBuffer {
+    return toArrayBuffer(
+      joinWav(buffers.map((buffer) => (buffer instanceof ArrayBuffer ? Buffer.from(buffer) : buffer))),
+    );
   }
 
   static async init(dtype: kokoroModelPrecision): Promise<Kokoro> {
@@ -67,11 +75,27 @@ export class Kokoro {
       device: "cpu", // only "cpu" is supported in node
     });
 
-    return new Kokoro(tts);
+    return new Kokoro(tts, dtype);
   }
 
   listAvailableVoices(): Voices[] {
     const voices = Object.values(VoiceEnum) as Voices[];
     return voices;
   }
+
+  listVoices(): TtsVoice[] {
+    return this.listAvailableVoices().map((id) => ({
+      id,
+      language: KOKORO_LANGUAGES[id[0]],
+      gender: id[1] === "f" ? "female" : "male",
+    }));
+  }
+
+  supportsLanguage(language: string, voice?: string): boolean {
+    return voicesSupportLanguage(this.listVoices(), language, voice);
+  }
+
+  cacheKey(): string {
+    return `${KOKORO_MODEL}:${this.dtype}`;
+  }
 }
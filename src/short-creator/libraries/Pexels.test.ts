@@ -56,3 +56,47 @@ test("should retry 3 times", async () => {
   console.log(video);
   assert.isObject(video, "Video should be an object");
 });
+
+test("searches portrait footage for the 4:5 feed format", async () => {
+  // drop the delayed interceptors left over by the timeout tests
+  nock.cleanAll();
+  const mockResponse = fs.readFileSync(
+    path.resolve("__mocks__/pexels-response.json"),
+    "utf-8",
+  );
+  nock("https://api.pexels.com")
+    .get(/videos\/search\?orientation=portrait&/)
+    .reply(200, mockResponse);
+
+  const pexels = new PexelsAPI("asdf");
+  const video = await pexels.findVideo(["dog"], 2.4, [], OrientationEnum.feed);
+  expect(video.width).toBeGreaterThanOrEqual(1080);
+  expect(video.height).toBeGreaterThanOrEqual(1350);
+});
+
+test("picks the smallest file that covers the frame", async () => {
+  nock.cleanAll();
+  const file = (id: string, width: number, height: number) => ({
+    id,
+    quality: "hd",
+    fps: 25,
+    width,
+    height,
+    link: `https://example.com/${id}.mp4`,
+  });
+  nock("https://api.pexels.com")
+    .get(/videos\/search\?orientation=portrait&/)
+    .reply(200, {
+      videos: [
+        {
+          id: "video",
+          duration: 10,
+          video_files: [file("4k", 2160, 3840), file("full-hd", 1080, 1920), file("2k", 1440, 2560)],
+        },
+      ],
+    });
+
+  const pexels = new PexelsAPI("asdf");
+  const video = await pexels.findVideo(["dog"], 2.4, [], OrientationEnum.portrait);
+  expect(video.url).toBe("https://example.com/full-hd.mp4");
+});
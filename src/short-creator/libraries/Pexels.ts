@@ -1,6 +1,7 @@
 /* eslint-disable @remotion/deterministic-randomness */
 import { getOrientationConfig } from "../../components/utils";
 import { logger } from "../../logger";
+import { pexelsErrorsTotal, pexelsRequestsTotal } from "../../monitoring/Metrics";
 import { OrientationEnum, type Video } from "../../types/shorts";
 
 const jokerTerms: string[] = ["nature", "globe", "space", "ocean"];
@@ -25,10 +26,16 @@ export class PexelsAPI {
       { searchTerm, minDurationSeconds, orientation },
       "Searching for video in Pexels API",
     );
+    const {
+      width: requiredVideoWidth,
+      height: requiredVideoHeight,
+      pexelsOrientation,
+    } = getOrientationConfig(orientation);
     const headers = new Headers();
     headers.append("Authorization", this.API_KEY);
+    pexelsRequestsTotal.inc();
     const response = await fetch(
-      `https://api.pexels.com/videos/search?orientation=${orientation}&size=medium&per_page=80&query=${encodeURIComponent(searchTerm)}`,
+      `https://api.pexels.com/videos/search?orientation=${pexelsOrientation}&size=medium&per_page=80&query=${encodeURIComponent(searchTerm)}`,
       {
         method: "GET",
         headers,
@@ -36,8 +43,14 @@ export class PexelsAPI {
         signal: AbortSignal.timeout(timeout),
       },
     )
+      .catch((error: unknown) => {
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        pexelsErrorsTotal.inc({ reason: timedOut ? "timeout" : "network" });
+        throw error;
+      })
       .then((res) => {
         if (!res.ok) {
+          pexelsErrorsTotal.inc({ reason: String(res.status) });
           if (res.status === 401) {
             throw new Error(
               "Invalid Pexels API key - please make sure you get a valid key from https://www.pexels.com/api and set it in the environment variable PEXELS_API_KEY",
@@ -64,9 +77,6 @@ export class PexelsAPI {
       }[];
     }[];
 
-    const { width: requiredVideoWidth, height: requiredVideoHeight } =
-      getOrientationConfig(orientation);
-
     if (!videos || videos.length === 0) {
       logger.error(
         { searchTerm, orientation },
@@ -91,19 +101,26 @@ export class PexelsAPI {
           fps < 25 ? video.duration * (fps / 25) : video.duration;
 
         if (duration >= minDurationSeconds + durationBufferSeconds) {
-          for (const file of video.video_files) {
-            if (
+          // the video is scaled to cover the frame, so it has to be at least as big
+          // and not so much wider that the crop loses most of it;
+          // feed (4:5) uses portrait footage cropped at the top and bottom
+          const files = video.video_files.filter(
+            (file) =>
               file.quality === "hd" &&
-              file.width === requiredVideoWidth &&
-              file.height === requiredVideoHeight
-            ) {
-              return {
-                id: video.id,
-                url: file.link,
-                width: file.width,
-                height: file.height,
-              };
-            }
+              file.width >= requiredVideoWidth &&
+              file.height >= requiredVideoHeight &&
+              file.width / file.height <= (requiredVideoWidth / requiredVideoHeight) * 2,
+          );
+          // the smallest one is the least to download and decode; an exact
+          // match is always the smallest
+          const file = files.sort((a, b) => a.width * a.height - b.width * b.height)[0];
+          if (file) {
+            return {
+              id: video.id,
+              url: file.link,
+              width: file.width,
+              height: file.height,
+            };
           }
         }
       })
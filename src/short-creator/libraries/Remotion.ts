@@ -1,14 +1,26 @@
 import z from "zod";
 import { bundle } from "@remotion/bundler";
-import { renderMedia, selectComposition } from "@remotion/renderer";
+import {
+  makeCancelSignal,
+  renderMedia,
+  renderStill,
+  selectComposition,
+} from "@remotion/renderer";
 import path from "path";
 import { ensureBrowser } from "@remotion/renderer";
 
 import { Config } from "../../config";
-import { shortVideoSchema } from "../../components/utils";
+import { shortVideoSchema, thumbnailSchema } from "../../components/utils";
+import { AvailableComponentsEnum } from "../../components/types";
 import { logger } from "../../logger";
 import { OrientationEnum } from "../../types/shorts";
 import { getOrientationConfig } from "../../components/utils";
+import { resolveOutputSettings, type OutputSettings } from "../output/OutputSettings";
+
+// draft previews: half resolution, lower frame rate, fastest x264 preset
+const DRAFT_SCALE = 0.5;
+const DRAFT_FPS = 15;
+const DRAFT_CRF = 30;
 
 export class Remotion {
   constructor(
@@ -60,8 +72,11 @@ export class Remotion {
     data: z.infer<typeof shortVideoSchema>,
     id: string,
     orientation: OrientationEnum,
+    signal?: AbortSignal,
+    options: { draft?: boolean; output?: OutputSettings; outputLocation?: string } = {},
   ) {
     const { component } = getOrientationConfig(orientation);
+    const output = options.output ?? resolveOutputSettings();
 
     const composition = await selectComposition({
       serveUrl: this.bundled,
@@ -71,22 +86,66 @@ export class Remotion {
 
     logger.debug({ component, videoID: id }, "Rendering video with Remotion");
 
-    const outputLocation = path.join(this.config.videosDirPath, `${id}.mp4`);
+    const outputLocation =
+      options.outputLocation ??
+      path.join(this.config.videosDirPath, `${id}.${output.container}`);
 
-    await renderMedia({
-      codec: "h264",
-      composition,
-      serveUrl: this.bundled,
-      outputLocation,
-      inputProps: data,
-      onProgress: ({ progress }) => {
-        logger.debug(`Rendering ${id} ${Math.floor(progress * 100)}% complete`);
-      },
-      // preventing memory issues with docker
-      concurrency: this.config.concurrency,
-      offthreadVideoCacheSizeInBytes: this.config.videoCacheSizeInBytes,
-      timeoutInMilliseconds: 120000,
-    });
+    // bridge the job's AbortSignal to Remotion's own cancel signal
+    const { cancelSignal, cancel } = makeCancelSignal();
+    const onAbort = () => cancel();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    let lastLoggedPercent = -1;
+
+    try {
+      await renderMedia({
+        codec: output.codec,
+        composition: options.draft
+          ? {
+              ...composition,
+              fps: DRAFT_FPS,
+              durationInFrames: Math.max(
+                1,
+                Math.floor((composition.durationInFrames / composition.fps) * DRAFT_FPS),
+              ),
+            }
+          : composition,
+        ...(options.draft
+          ? {
+              scale: DRAFT_SCALE,
+              ...(output.codec === "h264" && { x264Preset: "ultrafast" as const }),
+              ...(output.codec !== "prores" && { crf: DRAFT_CRF }),
+            }
+          : {
+              scale: output.scale,
+              crf: output.crf,
+              videoBitrate: output.videoBitrate,
+            }),
+        // prores is saved with uncompressed PCM audio, a bitrate doesn't apply
+        ...(output.codec !== "prores" && { audioBitrate: output.audioBitrate }),
+        serveUrl: this.bundled,
+        outputLocation,
+        inputProps: data,
+        onProgress: ({ progress }) => {
+          // called for every frame, log each percent once
+          const percent = Math.floor(progress * 100);
+          if (percent !== lastLoggedPercent) {
+            lastLoggedPercent = percent;
+            logger.debug(`Rendering ${id} ${percent}% complete`);
+          }
+        },
+        // preventing memory issues with docker
+        concurrency: this.getRenderConcurrency(),
+        offthreadVideoCacheSizeInBytes: this.config.videoCacheSizeInBytes,
+        timeoutInMilliseconds: 120000,
+        cancelSignal,
+      });
+    } catch (error) {
+      // Remotion rejects with its own "cancelled" error; rethrow the job's reason
+      signal?.throwIfAborted();
+      throw error;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
 
     logger.debug(
       {
@@ -98,6 +157,49 @@ export class Remotion {
     );
   }
 
+  /**
+   * Render the thumbnail composition (frame plus title) to a JPEG,
+   * sized for the video's orientation
+   */
+  async renderThumbnail(
+    data: z.infer<typeof thumbnailSchema>,
+    outputLocation: string,
+    orientation: OrientationEnum,
+  ) {
+    const { width, height } = getOrientationConfig(orientation);
+    const composition = await selectComposition({
+      serveUrl: this.bundled,
+      id: AvailableComponentsEnum.Thumbnail,
+      inputProps: data,
+    });
+
+    await renderStill({
+      composition: { ...composition, width, height },
+      serveUrl: this.bundled,
+      output: outputLocation,
+      inputProps: data,
+      imageFormat: "jpeg",
+      jpegQuality: 90,
+      timeoutInMilliseconds: 120000,
+    });
+
+    logger.debug({ outputLocation }, "Thumbnail rendered with Remotion");
+  }
+
+  /**
+   * Split the configured Remotion concurrency between parallel renders,
+   * so running several jobs at once doesn't multiply the browser tabs
+   */
+  private getRenderConcurrency(): number | undefined {
+    if (this.config.concurrency === undefined) {
+      return undefined;
+    }
+    return Math.max(
+      1,
+      Math.floor(this.config.concurrency / this.config.renderConcurrency),
+    );
+  }
+
   async testRender(outputLocation: string) {
     const composition = await selectComposition({
       serveUrl: this.bundled,
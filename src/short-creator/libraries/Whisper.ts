@@ -2,18 +2,54 @@ import {
   downloadWhisperModel,
   installWhisperCpp,
   transcribe,
+  type Language,
 } from "@remotion/install-whisper-cpp";
 import path from "path";
 
 import { Config } from "../../config";
-import type { Caption } from "../../types/shorts";
+import type { Caption, whisperModels } from "../../types/shorts";
 import { logger } from "../../logger";
+import { baseLanguage } from "../tts/TtsProvider";
 
 export const ErrorWhisper = new Error("There was an error with WhisperCpp");
 
 export class Whisper {
+  // multilingual models are downloaded on first use, with DOCKER=true too:
+  // an image that skips init only provides the configured model
+  private modelDownloads: Map<whisperModels, Promise<void>> = new Map();
+
   constructor(private config: Config) {}
 
+  private static async downloadModel(config: Config, model: whisperModels): Promise<void> {
+    logger.debug({ model }, "Downloading Whisper model");
+    await downloadWhisperModel({
+      model,
+      folder: path.join(config.whisperInstallPath, "models"),
+      printOutput: config.whisperVerbose,
+      onProgress: (downloadedBytes, totalBytes) => {
+        const progress = `${Math.round((downloadedBytes / totalBytes) * 100)}%`;
+        logger.debug({ progress, model }, "Downloading Whisper model");
+      },
+    });
+    logger.debug({ model }, "Whisper model downloaded");
+  }
+
+  private ensureModel(model: whisperModels): Promise<void> {
+    if (model === this.config.whisperModel) {
+      return Promise.resolve();
+    }
+    let download = this.modelDownloads.get(model);
+    if (!download) {
+      download = Whisper.downloadModel(this.config, model).catch((error) => {
+        // let the next job retry
+        this.modelDownloads.delete(model);
+        throw error;
+      });
+      this.modelDownloads.set(model, download);
+    }
+    return download;
+  }
+
   static async init(config: Config): Promise<Whisper> {
     if (!config.runningInDocker) {
       logger.debug("Installing WhisperCpp");
@@ -23,41 +59,40 @@ export class Whisper {
         printOutput: true,
       });
       logger.debug("WhisperCpp installed");
-      logger.debug("Downloading Whisper model");
-      await downloadWhisperModel({
-        model: config.whisperModel,
-        folder: path.join(config.whisperInstallPath, "models"),
-        printOutput: config.whisperVerbose,
-        onProgress: (downloadedBytes, totalBytes) => {
-          const progress = `${Math.round((downloadedBytes / totalBytes) * 100)}%`;
-          logger.debug(
-            { progress, model: config.whisperModel },
-            "Downloading Whisper model",
-          );
-        },
-      });
+      await Whisper.downloadModel(config, config.whisperModel);
       // todo run the jfk command to check if everything is ok
-      logger.debug("Whisper model downloaded");
     }
 
     return new Whisper(config);
   }
 
   // todo shall we extract it to a Caption class?
-  async CreateCaption(audioPath: string): Promise<Caption[]> {
-    logger.debug({ audioPath }, "Starting to transcribe audio");
+  /**
+   * Speech that isn't English is transcribed with the multilingual model,
+   * told the language instead of letting it guess
+   */
+  async CreateCaption(audioPath: string, signal?: AbortSignal, language?: string): Promise<Caption[]> {
+    const english = !language || baseLanguage(language) === "en";
+    const model = english ? this.config.whisperModel : this.config.whisperMultilingualModel;
+    await this.ensureModel(model);
+    logger.debug({ audioPath, model, language }, "Starting to transcribe audio");
     const { transcription } = await transcribe({
-      model: this.config.whisperModel,
+      model,
+      // whisper.cpp takes language codes as well as names
+      language: english ? null : (baseLanguage(language) as Language),
       whisperPath: this.config.whisperInstallPath,
       modelFolder: path.join(this.config.whisperInstallPath, "models"),
       whisperCppVersion: this.config.whisperVersion,
       inputPath: audioPath,
       tokenLevelTimestamps: true,
       printOutput: this.config.whisperVerbose,
+      signal,
       onProgress: (progress) => {
         logger.debug({ audioPath }, `Transcribing is ${progress} complete`);
       },
     });
+    // whisper.cpp is killed on abort; surface the cancellation reason instead of its exit error
+    signal?.throwIfAborted();
     logger.debug({ audioPath }, "Transcription finished, creating captions");
 
     const captions: Caption[] = [];
@@ -0,0 +1,48 @@
+import { test, expect, vi } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { JobLogStore } from "./JobLogStore";
+import { logger } from "../../logger";
+import type { Config } from "../../config";
+
+// same wiring as the root logger in config.ts, without the stdout stream
+vi.mock("../../logger", async () => {
+  const pino = (await import("pino")).default;
+  const { jobLogMixin, jobLogStream } = await import("./jobLogContext");
+  const logger = pino(
+    { level: "debug", mixin: jobLogMixin },
+    pino.multistream([{ level: "debug", stream: jobLogStream }]),
+  );
+  return { logger, default: logger };
+});
+
+test("captures everything logged during the job into its own file", async () => {
+  const jobLogsDirPath = fs.mkdtempSync(path.join(os.tmpdir(), "joblogs-test-"));
+  const store = new JobLogStore({ jobLogsDirPath } as Config);
+
+  await store.run("video-1", async (jobLogger) => {
+    jobLogger.info("job started");
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    // shared libraries log through the root logger
+    logger.debug({ scene: 0 }, "library detail");
+  });
+  logger.info("after the job");
+  await store.run("video-2", async () => {
+    logger.warn("other job");
+  });
+
+  const lines = store
+    .tail("video-1", 10)!
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+  expect(lines.map((line) => [line.msg, line.videoId])).toEqual([
+    ["job started", "video-1"],
+    ["library detail", "video-1"],
+  ]);
+  expect(store.tail("video-1", 10)!.match(/"videoId"/g)).toHaveLength(2);
+  expect(store.tail("video-2", 1)).toContain('"msg":"other job"');
+  expect(store.tail("missing", 1)).toBeUndefined();
+});
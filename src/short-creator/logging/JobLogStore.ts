@@ -0,0 +1,69 @@
+/**
+ * Job Log Store
+ *
+ * One log file per video in the workspace job-logs directory, holding every
+ * line logged while the job ran (pino JSON, one object per line). Promoting
+ * a draft or restarting an interrupted job appends to the same file.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import type { Logger } from "pino";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import { jobLogContext, type JobLogContext } from "./jobLogContext";
+
+export class JobLogStore {
+  private logsDir: string;
+
+  constructor(config: Config) {
+    this.logsDir = config.jobLogsDirPath;
+    fs.ensureDirSync(this.logsDir);
+  }
+
+  getPath(videoId: string): string {
+    return path.join(this.logsDir, `${videoId}.log`);
+  }
+
+  exists(videoId: string): boolean {
+    return fs.existsSync(this.getPath(videoId));
+  }
+
+  /**
+   * Last `lines` lines of the log, undefined when the video has no log
+   */
+  tail(videoId: string, lines: number): string | undefined {
+    if (!this.exists(videoId)) {
+      return undefined;
+    }
+    const content = fs.readFileSync(this.getPath(videoId), "utf-8");
+    const allLines = content.split("\n").filter(Boolean);
+    return allLines.slice(-lines).join("\n") + "\n";
+  }
+
+  remove(videoId: string): void {
+    fs.removeSync(this.getPath(videoId));
+  }
+
+  /**
+   * Run a job with its log file open. Everything logged inside fn, through
+   * jobLogger or the root logger, is appended to the file.
+   */
+  async run<T>(videoId: string, fn: (jobLogger: Logger) => Promise<T>): Promise<T> {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.getPath(videoId), "a");
+    } catch (error) {
+      logger.warn({ videoId, error }, "Could not open job log file, logging to stdout only");
+      return fn(logger.child({ videoId }));
+    }
+    const context: JobLogContext = { videoId, fd, closed: false };
+    context.logger = logger.child({ videoId });
+    try {
+      return await jobLogContext.run(context, () => fn(context.logger as Logger));
+    } finally {
+      context.closed = true;
+      fs.closeSync(context.fd);
+    }
+  }
+}
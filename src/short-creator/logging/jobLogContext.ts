@@ -0,0 +1,52 @@
+/**
+ * Job Log Context
+ *
+ * Async context of the render job that is running, so log lines from shared
+ * libraries (FFmpeg, Remotion, Whisper, content sources) end up in that
+ * job's log file without passing a logger around. The root logger in
+ * config.ts writes to jobLogStream and tags lines with jobLogMixin.
+ *
+ * Kept free of repo imports: config.ts depends on it.
+ */
+
+import fs from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import type { Logger } from "pino";
+
+export interface JobLogContext {
+  videoId: string;
+  /** Open log file of the job */
+  fd: number;
+  /** Set once the job is over; late callbacks must not write to a reused fd */
+  closed: boolean;
+  /** Child logger bound to the videoId */
+  logger?: Logger;
+}
+
+export const jobLogContext = new AsyncLocalStorage<JobLogContext>();
+
+/**
+ * pino destination that appends each line to the current job's log file
+ */
+export const jobLogStream = {
+  write(line: string): void {
+    const context = jobLogContext.getStore();
+    if (!context || context.closed) {
+      return;
+    }
+    try {
+      fs.writeSync(context.fd, line);
+    } catch {
+      // the job log is best effort, the shared stream still has the line
+    }
+  },
+};
+
+/**
+ * Adds the videoId to lines logged through the root logger during a job;
+ * the job's child logger already has it as a binding
+ */
+export function jobLogMixin(_mergeObject: object, _level: number, instance: Logger): object {
+  const context = jobLogContext.getStore();
+  return context && instance !== context.logger ? { videoId: context.videoId } : {};
+}
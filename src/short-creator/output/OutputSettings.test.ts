@@ -0,0 +1,62 @@
+import { test, expect } from "vitest";
+
+import {
+  getFfmpegOutputOptions,
+  getVideoMimeType,
+  resolveOrientations,
+  resolveOutputSettings,
+} from "./OutputSettings";
+import { OrientationEnum, renderConfig } from "../../types/shorts";
+
+test("defaults to h264 mp4 at 1080p and 25 fps", () => {
+  expect(resolveOutputSettings()).toEqual({
+    codec: "h264",
+    container: "mp4",
+    fps: 25,
+    scale: 1,
+    crf: undefined,
+    videoBitrate: undefined,
+    audioBitrate: "192k",
+  });
+});
+
+test("picks the container and scale for the requested output", () => {
+  const settings = resolveOutputSettings({ codec: "vp9", scale: "4k", fps: 60 });
+  expect(settings).toMatchObject({ container: "webm", scale: 2, fps: 60 });
+  expect(getFfmpegOutputOptions(settings)).toEqual([
+    "-c:v", "libvpx-vp9", "-pix_fmt", "yuv420p", "-r", "60",
+    "-crf", "28", "-b:v", "0",
+    "-c:a", "libopus", "-b:a", "192k",
+  ]);
+  expect(getVideoMimeType("/renders/abc.webm")).toBe("video/webm");
+});
+
+test("uses the target bitrate instead of crf when given", () => {
+  const options = getFfmpegOutputOptions(
+    resolveOutputSettings({ videoBitrate: "8M", audioBitrate: "128k" }),
+  );
+  expect(options).toContain("8M");
+  expect(options).not.toContain("-crf");
+  expect(options.slice(-2)).toEqual(["-b:a", "128k"]);
+});
+
+test("rejects crf together with bitrate, and crf outside the codec range", () => {
+  expect(renderConfig.safeParse({ output: { crf: 20, videoBitrate: "5M" } }).success).toBe(false);
+  expect(renderConfig.safeParse({ output: { codec: "prores", crf: 20 } }).success).toBe(false);
+  expect(renderConfig.safeParse({ output: { codec: "h264", crf: 60 } }).success).toBe(false);
+  expect(renderConfig.safeParse({ output: { codec: "vp9", crf: 60 } }).success).toBe(true);
+  expect(renderConfig.safeParse({ output: { fps: 50 } }).success).toBe(false);
+});
+
+test("orientations take precedence over orientation, without duplicates", () => {
+  expect(resolveOrientations({})).toEqual([OrientationEnum.portrait]);
+  expect(resolveOrientations({ orientation: OrientationEnum.landscape })).toEqual([
+    OrientationEnum.landscape,
+  ]);
+  expect(
+    resolveOrientations({
+      orientation: OrientationEnum.landscape,
+      orientations: [OrientationEnum.square, OrientationEnum.portrait, OrientationEnum.square],
+    }),
+  ).toEqual([OrientationEnum.square, OrientationEnum.portrait]);
+});
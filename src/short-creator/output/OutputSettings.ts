@@ -0,0 +1,123 @@
+/**
+ * Output Settings
+ *
+ * Turns renderConfig.output into concrete encoding settings shared by the
+ * Remotion render and the FFmpeg effect passes, so a video keeps the same
+ * codec, container, frame rate and size through post-processing.
+ */
+
+import path from "path";
+import { OrientationEnum, type OutputConfig, type RenderConfig } from "../../types/shorts";
+
+export type VideoCodec = NonNullable<OutputConfig["codec"]>;
+export type VideoContainer = "mp4" | "webm" | "mov";
+
+export interface OutputSettings {
+  codec: VideoCodec;
+  container: VideoContainer;
+  fps: number;
+  /** Multiplier on the composition size; compositions are 1080 px on the short side */
+  scale: number;
+  crf?: number;
+  videoBitrate?: string;
+  audioBitrate: string;
+}
+
+// keep in sync with FPS in components/root/Root.tsx
+export const DEFAULT_FPS = 25;
+const DEFAULT_AUDIO_BITRATE = "192k";
+
+const SCALES: Record<NonNullable<OutputConfig["scale"]>, number> = {
+  "720p": 720 / 1080,
+  "1080p": 1,
+  "4k": 2160 / 1080,
+};
+
+const CONTAINERS: Record<VideoCodec, VideoContainer> = {
+  h264: "mp4",
+  h265: "mp4",
+  vp9: "webm",
+  prores: "mov",
+};
+
+const MIME_TYPES: Record<VideoContainer, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+};
+
+export const VIDEO_EXTENSIONS = Object.keys(MIME_TYPES).map((container) => `.${container}`);
+
+/**
+ * FFmpeg encoder arguments per codec. The default CRFs match Remotion's,
+ * so effect passes don't visibly change quality when no crf is given.
+ */
+const FFMPEG_VIDEO: Record<VideoCodec, { encoder: string; args: string[]; defaultCrf?: number }> = {
+  h264: { encoder: "libx264", args: ["-pix_fmt", "yuv420p"], defaultCrf: 18 },
+  h265: { encoder: "libx265", args: ["-pix_fmt", "yuv420p", "-tag:v", "hvc1"], defaultCrf: 23 },
+  vp9: { encoder: "libvpx-vp9", args: ["-pix_fmt", "yuv420p"], defaultCrf: 28 },
+  prores: { encoder: "prores_ks", args: ["-profile:v", "3", "-pix_fmt", "yuv422p10le"] },
+};
+
+const FFMPEG_AUDIO: Record<VideoCodec, string> = {
+  h264: "aac",
+  h265: "aac",
+  vp9: "libopus",
+  prores: "pcm_s16le",
+};
+
+export function resolveOutputSettings(output: OutputConfig = {}): OutputSettings {
+  const codec = output.codec ?? "h264";
+  return {
+    codec,
+    container: CONTAINERS[codec],
+    fps: output.fps ?? DEFAULT_FPS,
+    scale: SCALES[output.scale ?? "1080p"],
+    crf: output.crf,
+    videoBitrate: output.videoBitrate,
+    audioBitrate: output.audioBitrate ?? DEFAULT_AUDIO_BITRATE,
+  };
+}
+
+/**
+ * Orientations a job renders. The first one is the primary output: it is
+ * served at the plain download URL, picks the stock footage and gets the
+ * thumbnail.
+ */
+export function resolveOrientations(
+  config: Pick<RenderConfig, "orientation" | "orientations">,
+): OrientationEnum[] {
+  if (config.orientations?.length) {
+    return [...new Set(config.orientations)];
+  }
+  return [config.orientation || OrientationEnum.portrait];
+}
+
+export function getVideoMimeType(filePath: string): string {
+  const container = path.extname(filePath).slice(1) as VideoContainer;
+  return MIME_TYPES[container] ?? "application/octet-stream";
+}
+
+/**
+ * Output options for an FFmpeg pass that re-encodes a rendered video
+ */
+export function getFfmpegOutputOptions(settings: OutputSettings): string[] {
+  const video = FFMPEG_VIDEO[settings.codec];
+  const options = ["-c:v", video.encoder, ...video.args, "-r", String(settings.fps)];
+
+  if (settings.videoBitrate) {
+    options.push("-b:v", settings.videoBitrate);
+  } else if (video.defaultCrf !== undefined) {
+    options.push("-crf", String(settings.crf ?? video.defaultCrf));
+    if (settings.codec === "vp9") {
+      // constant quality mode, otherwise libvpx caps the bitrate
+      options.push("-b:v", "0");
+    }
+  }
+
+  options.push("-c:a", FFMPEG_AUDIO[settings.codec]);
+  if (settings.codec !== "prores") {
+    options.push("-b:a", settings.audioBitrate);
+  }
+  return options;
+}
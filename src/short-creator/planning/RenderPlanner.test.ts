@@ -0,0 +1,94 @@
+import { test, expect, vi, beforeAll, afterAll } from "vitest";
+import http from "http";
+import os from "os";
+import type { AddressInfo } from "net";
+
+import { RenderPlanner } from "./RenderPlanner";
+import type { Config } from "../../config";
+import type { TtsRegistry } from "../tts/TtsRegistry";
+import type { PexelsAPI } from "../libraries/Pexels";
+import type { MusicManager } from "../music";
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === "/clip.mp4") {
+      res.writeHead(200, { "Content-Type": "video/mp4", "Content-Length": "1024" });
+    } else {
+      res.writeHead(404);
+    }
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const config = { getStaticDirPath: () => os.tmpdir() } as Config;
+const tts = {
+  resolve: () => ({ provider: { name: "kokoro" }, voice: "af_heart" }),
+} as unknown as TtsRegistry;
+const musicManager = {
+  musicList: () => [{ file: "a.mp3", start: 0, end: 10, mood: "happy" }],
+} as unknown as MusicManager;
+
+test("estimates scene timings and reports media and effect problems", async () => {
+  const pexels = {
+    findVideo: vi.fn().mockResolvedValue({ id: "1", url: "x", width: 1080, height: 1920 }),
+  } as unknown as PexelsAPI;
+  const planner = new RenderPlanner(config, pexels, tts, musicManager);
+
+  const plan = await planner.plan(
+    [
+      { text: "one two three four five", searchTerms: ["dog"] },
+      {
+        text: "six seven eight nine ten",
+        media: { type: "url", urls: [`${baseUrl}/clip.mp4`, `${baseUrl}/missing.mp4`] },
+        effects: [
+          {
+            type: "blend",
+            staticEffectPath: "effects/does-not-exist.mp4",
+            blendMode: "screen" as never,
+            opacity: 0.5,
+          },
+        ],
+      },
+    ],
+    { paddingBack: 1500 },
+  );
+
+  expect(plan.durationSource).toBe("estimated");
+  expect(plan.scenes.map((scene) => scene.durationSeconds)).toEqual([2, 3.5]);
+  expect(plan.scenes[1].startSeconds).toBe(2);
+  expect(plan.estimatedDurationSeconds).toBe(5.5);
+  expect(plan.scenes[0].media.available).toBe(true);
+  expect(plan.scenes[1].media.available).toBe(false);
+
+  expect(plan.valid).toBe(false);
+  expect(plan.errors).toEqual([
+    { sceneIndex: 1, message: `${baseUrl}/missing.mp4 returned HTTP 404` },
+    { sceneIndex: 1, message: "Effect file effects/does-not-exist.mp4 not found in static directory" },
+  ]);
+});
+
+test("reports missing Pexels footage and music", async () => {
+  const pexels = {
+    findVideo: vi.fn().mockRejectedValue(new Error("No videos found in Pexels API")),
+  } as unknown as PexelsAPI;
+  const planner = new RenderPlanner(config, pexels, tts, musicManager);
+
+  const plan = await planner.plan(
+    [{ text: "hello", searchTerms: ["nothing"] }],
+    { music: "sad" as never },
+  );
+
+  expect(plan.errors.map((issue) => issue.message)).toEqual([
+    "No Pexels video found for [nothing]: No videos found in Pexels API",
+    'No music available for mood "sad"',
+  ]);
+});
@@ -0,0 +1,310 @@
+/**
+ * Render Planner
+ *
+ * Dry run of a createShort request: estimates (or synthesizes) speech length
+ * per scene, checks that each scene's media can be resolved without
+ * downloading it, verifies effect files exist and reports everything that
+ * would make the real render fail or look wrong.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type { TtsRegistry } from "../tts/TtsRegistry";
+import type { PronunciationLexicon } from "../tts/PronunciationLexicon";
+import {
+  resolveSceneSpeech,
+  synthesizeSceneSpeech,
+  type SceneSpeech,
+} from "../tts/sceneSpeech";
+import type { PexelsAPI } from "../libraries/Pexels";
+import type { MusicManager } from "../music";
+import { resolveOrientations } from "../output/OutputSettings";
+import {
+  OrientationEnum,
+  type Effect,
+  type RenderConfig,
+  type SceneInput,
+} from "../../types/shorts";
+
+// Kokoro speaks roughly 150 words per minute at speed 1.0
+const WORDS_PER_SECOND = 2.5;
+const MIN_SCENE_SECONDS = 1;
+const HEAD_TIMEOUT_MS = 5000;
+// keep in sync with UrlSource
+const MAX_URL_FILE_SIZE = 500 * 1024 * 1024;
+
+export interface PlanIssue {
+  sceneIndex?: number;
+  message: string;
+}
+
+export interface ScenePlan {
+  index: number;
+  wordCount: number;
+  startSeconds: number;
+  /** Speech length plus paddingBack on the last scene */
+  durationSeconds: number;
+  media: {
+    source: "pexels" | "url" | "files";
+    items: number;
+    available: boolean;
+  };
+  effectCount: number;
+}
+
+export interface RenderPlan {
+  /** True when no errors were found */
+  valid: boolean;
+  durationSource: "estimated" | "synthesized";
+  estimatedDurationSeconds: number;
+  scenes: ScenePlan[];
+  warnings: PlanIssue[];
+  errors: PlanIssue[];
+}
+
+export class RenderPlanner {
+  constructor(
+    private config: Config,
+    private pexelsApi: PexelsAPI,
+    private tts: TtsRegistry,
+    private musicManager: MusicManager,
+    private lexicon?: PronunciationLexicon,
+  ) {}
+
+  async plan(
+    inputScenes: SceneInput[],
+    renderConfig: RenderConfig,
+    options: { synthesize?: boolean } = {},
+  ): Promise<RenderPlan> {
+    const warnings: PlanIssue[] = [];
+    const errors: PlanIssue[] = [];
+    const scenes: ScenePlan[] = [];
+    // stock footage is searched once, for the primary orientation
+    const orientation = resolveOrientations(renderConfig)[0];
+
+    if (inputScenes.length === 0) {
+      errors.push({ message: "At least one scene is required" });
+    }
+
+    let voicesValid = true;
+    try {
+      this.tts.resolve(renderConfig.ttsProvider, renderConfig.voice, renderConfig.language);
+    } catch (error) {
+      errors.push({ message: errorMessage(error) });
+      voicesValid = false;
+    }
+
+    let startSeconds = 0;
+    for (const [index, scene] of inputScenes.entries()) {
+      // scene voices are only checked when the renderConfig one is valid, to report it once
+      let speech: SceneSpeech | undefined;
+      if (voicesValid && !scene.narration && (scene.text.trim() || scene.dialogue)) {
+        try {
+          speech = resolveSceneSpeech(this.tts, scene, renderConfig, this.lexicon);
+        } catch (error) {
+          errors.push({ sceneIndex: index, message: errorMessage(error) });
+        }
+      }
+
+      const wordCount = (speech?.displayText ?? scene.text).trim().split(/\s+/).filter(Boolean).length;
+      if (scene.narration) {
+        warnings.push({
+          sceneIndex: index,
+          message: "Scene uses a narration recording, its length is only known at render time",
+        });
+      } else if (wordCount === 0) {
+        errors.push({ sceneIndex: index, message: "Scene text is empty" });
+      }
+      const voiceSpeed = scene.voiceSpeed ?? renderConfig.voiceSpeed ?? 1.0;
+      // dialogue gaps and markup pauses come on top of the spoken words
+      const silenceMs = speech
+        ? (speech.segments.length - 1) * speech.gapMs +
+          speech.segments
+            .flatMap((segment) => segment.parts)
+            .reduce((total, part) => total + (part.type === "pause" ? part.ms : 0), 0)
+        : 0;
+      const estimatedSeconds = this.estimateSpeechSeconds(wordCount, voiceSpeed) + silenceMs / 1000 / voiceSpeed;
+
+      let durationSeconds: number;
+      if (options.synthesize && speech && wordCount > 0) {
+        try {
+          const { audioLength } = await synthesizeSceneSpeech(speech);
+          durationSeconds = audioLength / voiceSpeed;
+        } catch (error) {
+          errors.push({ sceneIndex: index, message: `Speech synthesis failed: ${errorMessage(error)}` });
+          durationSeconds = estimatedSeconds;
+        }
+      } else {
+        durationSeconds = estimatedSeconds;
+      }
+      if (index === inputScenes.length - 1 && renderConfig.paddingBack) {
+        durationSeconds += renderConfig.paddingBack / 1000;
+      }
+
+      const media = await this.checkMedia(scene, index, durationSeconds, orientation, warnings, errors);
+      for (const effect of scene.effects ?? []) {
+        this.checkEffect(effect, index, errors);
+      }
+
+      scenes.push({
+        index,
+        wordCount,
+        startSeconds: round(startSeconds),
+        durationSeconds: round(durationSeconds),
+        media,
+        effectCount: scene.effects?.length ?? 0,
+      });
+      startSeconds += durationSeconds;
+    }
+
+    const musicAvailable = this.musicManager
+      .musicList()
+      .some((music) => !renderConfig.music || music.mood === renderConfig.music);
+    if (!musicAvailable) {
+      errors.push({ message: `No music available for mood "${renderConfig.music}"` });
+    }
+
+    return {
+      valid: errors.length === 0,
+      durationSource: options.synthesize ? "synthesized" : "estimated",
+      estimatedDurationSeconds: round(startSeconds),
+      scenes,
+      warnings,
+      errors,
+    };
+  }
+
+  private estimateSpeechSeconds(wordCount: number, voiceSpeed: number): number {
+    return Math.max(MIN_SCENE_SECONDS, wordCount / WORDS_PER_SECOND) / voiceSpeed;
+  }
+
+  private async checkMedia(
+    scene: SceneInput,
+    sceneIndex: number,
+    durationSeconds: number,
+    orientation: OrientationEnum,
+    warnings: PlanIssue[],
+    errors: PlanIssue[],
+  ): Promise<ScenePlan["media"]> {
+    const media = scene.media ?? { type: "pexels" as const, searchTerms: scene.searchTerms ?? [] };
+
+    if (media.type === "pexels") {
+      try {
+        // search only; the video itself is downloaded at render time
+        await this.pexelsApi.findVideo([...media.searchTerms], durationSeconds, [], orientation);
+        return { source: "pexels", items: 1, available: true };
+      } catch (error) {
+        errors.push({
+          sceneIndex,
+          message: `No Pexels video found for [${media.searchTerms.join(", ")}]: ${errorMessage(error)}`,
+        });
+        return { source: "pexels", items: 0, available: false };
+      }
+    }
+
+    if (media.type === "url") {
+      let available = 0;
+      for (const url of media.urls) {
+        if (await this.checkUrl(url, sceneIndex, warnings, errors)) {
+          available++;
+        }
+      }
+      return { source: "url", items: media.urls.length, available: available === media.urls.length };
+    }
+
+    let valid = 0;
+    for (const file of media.files) {
+      if (!file.mimeType.startsWith("video/") && !file.mimeType.startsWith("image/")) {
+        errors.push({ sceneIndex, message: `Unsupported MIME type for ${file.filename}: ${file.mimeType}` });
+      } else if (!file.data) {
+        errors.push({ sceneIndex, message: `File ${file.filename} has no data` });
+      } else {
+        valid++;
+      }
+    }
+    if (media.files.length > 1 && scene.mediaDuration === undefined) {
+      warnings.push({ sceneIndex, message: "Several files given without mediaDuration, only the first one will be used" });
+    }
+    return { source: "files", items: media.files.length, available: valid === media.files.length };
+  }
+
+  /**
+   * HEAD the URL to see that it exists and looks like media
+   */
+  private async checkUrl(
+    url: string,
+    sceneIndex: number,
+    warnings: PlanIssue[],
+    errors: PlanIssue[],
+  ): Promise<boolean> {
+    try {
+      const response = await fetch(url, {
+        method: "HEAD",
+        redirect: "follow",
+        signal: AbortSignal.timeout(HEAD_TIMEOUT_MS),
+      });
+      if (response.status === 405) {
+        warnings.push({ sceneIndex, message: `${url} does not allow HEAD requests, could not verify it` });
+        return true;
+      }
+      if (!response.ok) {
+        errors.push({ sceneIndex, message: `${url} returned HTTP ${response.status}` });
+        return false;
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      if (contentType && !contentType.startsWith("video/") && !contentType.startsWith("image/")) {
+        warnings.push({ sceneIndex, message: `${url} has unexpected content type ${contentType}` });
+      }
+      const contentLength = Number(response.headers.get("content-length") ?? 0);
+      if (contentLength > MAX_URL_FILE_SIZE) {
+        errors.push({ sceneIndex, message: `${url} is larger than 500 MB` });
+        return false;
+      }
+      return true;
+    } catch (error) {
+      logger.debug({ url, error }, "Plan: URL check failed");
+      errors.push({ sceneIndex, message: `${url} is not reachable: ${errorMessage(error)}` });
+      return false;
+    }
+  }
+
+  private checkEffect(effect: Effect, sceneIndex: number, errors: PlanIssue[]): void {
+    const [staticPath, url, file] =
+      effect.type === "blend"
+        ? [effect.staticEffectPath, effect.overlayUrl, effect.overlayFile]
+        : [effect.staticBannerPath, effect.bannerUrl, effect.bannerFile];
+
+    if (staticPath) {
+      const ext = path.extname(staticPath).toLowerCase();
+      if ([".webm", ".avi", ".mov"].includes(ext)) {
+        errors.push({ sceneIndex, message: `Only MP4 video effects are allowed, got ${staticPath}` });
+      }
+      if (!fs.existsSync(path.join(this.config.getStaticDirPath(), staticPath))) {
+        errors.push({ sceneIndex, message: `Effect file ${staticPath} not found in static directory` });
+      }
+      return;
+    }
+    if (url) {
+      if (!url.startsWith("file://")) {
+        errors.push({ sceneIndex, message: `Only file:// effect URLs are allowed, got ${url}` });
+      } else if (!fs.existsSync(url.replace("file://", ""))) {
+        errors.push({ sceneIndex, message: `Effect file ${url} not found` });
+      }
+      return;
+    }
+    if (!file) {
+      errors.push({ sceneIndex, message: `The ${effect.type} effect has no source file` });
+    }
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
@@ -0,0 +1,17 @@
+import { test, expect } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { BatchStore } from "./BatchStore";
+import type { Config } from "../../config";
+
+test("persists batches and reloads them from disk", () => {
+  const batchesDirPath = fs.mkdtempSync(path.join(os.tmpdir(), "batchstore-test-"));
+  const config = { batchesDirPath } as Config;
+
+  const batch = new BatchStore(config).create(["video-1", "video-2"]);
+
+  expect(new BatchStore(config).get(batch.id)).toEqual(batch);
+  expect(new BatchStore(config).get("missing")).toBeUndefined();
+});
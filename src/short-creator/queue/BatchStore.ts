@@ -0,0 +1,62 @@
+/**
+ * Batch Store
+ *
+ * Groups videos created by one batch request. Each batch is a small JSON
+ * file in the workspace batches directory that lists its video ids; the
+ * per-video state lives in the JobStore, so nothing here changes after
+ * the batch is created.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import cuid from "cuid";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+
+export interface BatchRecord {
+  id: string;
+  videoIds: string[];
+  createdAt: string;
+}
+
+export class BatchStore {
+  private batchesDir: string;
+  private records: Map<string, BatchRecord> = new Map();
+
+  constructor(config: Config) {
+    this.batchesDir = config.batchesDirPath;
+    fs.ensureDirSync(this.batchesDir);
+    this.load();
+  }
+
+  private load(): void {
+    for (const file of fs.readdirSync(this.batchesDir)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const record = fs.readJsonSync(path.join(this.batchesDir, file)) as BatchRecord;
+        this.records.set(record.id, record);
+      } catch (error) {
+        logger.warn({ file, error }, "Failed to read batch record, skipping");
+      }
+    }
+  }
+
+  create(videoIds: string[]): BatchRecord {
+    const record: BatchRecord = {
+      id: cuid(),
+      videoIds,
+      createdAt: new Date().toISOString(),
+    };
+    const filePath = path.join(this.batchesDir, `${record.id}.json`);
+    fs.writeJsonSync(`${filePath}.tmp`, record);
+    fs.renameSync(`${filePath}.tmp`, filePath);
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  get(id: string): BatchRecord | undefined {
+    return this.records.get(id);
+  }
+}
@@ -0,0 +1,40 @@
+import { test, expect, beforeEach } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { IdempotencyStore, IdempotencyConflictError, hashRequestBody } from "./IdempotencyStore";
+import type { Config } from "../../config";
+
+let config: Config;
+
+beforeEach(() => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "idempotency-test-"));
+  config = {
+    idempotencyKeysPath: path.join(dir, "idempotency-keys.json"),
+    idempotencyTtlMs: 60_000,
+  } as Config;
+});
+
+test("returns the original video for a repeated key and body", () => {
+  const hash = hashRequestBody({ scenes: [{ text: "hello" }] });
+  new IdempotencyStore(config).remember("key-1", hash, "video-1");
+
+  const reloaded = new IdempotencyStore(config);
+  expect(reloaded.find("key-1", hash)).toBe("video-1");
+  expect(reloaded.find("key-2", hash)).toBeUndefined();
+});
+
+test("rejects a key reused with a different body", () => {
+  const store = new IdempotencyStore(config);
+  store.remember("key-1", hashRequestBody({ text: "a" }), "video-1");
+
+  expect(() => store.find("key-1", hashRequestBody({ text: "b" }))).toThrow(IdempotencyConflictError);
+});
+
+test("forgets keys after the window", () => {
+  const store = new IdempotencyStore({ ...config, idempotencyTtlMs: -1 } as Config);
+  store.remember("key-1", "hash", "video-1");
+
+  expect(store.find("key-1", "hash")).toBeUndefined();
+});
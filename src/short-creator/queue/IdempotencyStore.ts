@@ -0,0 +1,99 @@
+/**
+ * Idempotency Store
+ *
+ * Remembers which video an Idempotency-Key created, so a retried submission
+ * returns the original videoId instead of rendering the same short twice.
+ * Keys live in a single JSON file in the workspace and expire after
+ * config.idempotencyTtlMs.
+ */
+
+import crypto from "crypto";
+import fs from "fs-extra";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+
+interface IdempotencyEntry {
+  videoId: string;
+  bodyHash: string;
+  createdAt: number;
+}
+
+/**
+ * Thrown when a key is reused with a different request body
+ */
+export class IdempotencyConflictError extends Error {
+  constructor(public key: string, public videoId: string) {
+    super(`Idempotency-Key "${key}" was already used for a different request (video ${videoId})`);
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+export function hashRequestBody(body: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+export class IdempotencyStore {
+  private filePath: string;
+  private ttlMs: number;
+  private entries: Map<string, IdempotencyEntry> = new Map();
+
+  constructor(config: Config) {
+    this.filePath = config.idempotencyKeysPath;
+    this.ttlMs = config.idempotencyTtlMs;
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      const data = fs.readJsonSync(this.filePath) as Record<string, IdempotencyEntry>;
+      this.entries = new Map(Object.entries(data));
+      this.purgeExpired();
+    } catch (error) {
+      logger.warn({ error }, "Failed to read idempotency keys, starting empty");
+    }
+  }
+
+  private save(): void {
+    try {
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeJsonSync(tmpPath, Object.fromEntries(this.entries));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.warn({ error }, "Failed to persist idempotency keys");
+    }
+  }
+
+  private purgeExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.createdAt < cutoff) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * VideoId created earlier with this key and body, undefined if the key is
+   * new or expired. Throws IdempotencyConflictError when the body differs.
+   */
+  find(key: string, bodyHash: string): string | undefined {
+    this.purgeExpired();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.bodyHash !== bodyHash) {
+      throw new IdempotencyConflictError(key, entry.videoId);
+    }
+    return entry.videoId;
+  }
+
+  remember(key: string, bodyHash: string, videoId: string): void {
+    this.purgeExpired();
+    this.entries.set(key, { videoId, bodyHash, createdAt: Date.now() });
+    this.save();
+  }
+}
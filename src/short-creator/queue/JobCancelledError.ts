@@ -0,0 +1,15 @@
+/**
+ * Thrown (as the abort reason) when a render job is cancelled by the user.
+ * Pipeline stages check their AbortSignal and rethrow it, so the job
+ * runner can tell a cancellation apart from a genuine failure.
+ */
+export class JobCancelledError extends Error {
+  constructor(public videoId: string) {
+    super(`Video ${videoId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+export function isJobCancelled(error: unknown): error is JobCancelledError {
+  return error instanceof JobCancelledError;
+}
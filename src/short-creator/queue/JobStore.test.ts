@@ -0,0 +1,80 @@
+import { test, expect, beforeEach } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { JobStore } from "./JobStore";
+import type { Config } from "../../config";
+
+let config: Config;
+
+beforeEach(() => {
+  const jobsDirPath = fs.mkdtempSync(path.join(os.tmpdir(), "jobstore-test-"));
+  config = { jobsDirPath } as Config;
+});
+
+test("persists jobs and reloads them from disk", () => {
+  const store = new JobStore(config);
+  store.create("job-1", {
+    sceneInput: [{ text: "hello", searchTerms: ["dog"] }],
+    config: { paddingBack: 1500 },
+  });
+  store.update("job-1", { state: "processing", progress: 40, stage: "Rendering" });
+
+  const reloaded = new JobStore(config);
+  expect(reloaded.get("job-1")).toMatchObject({
+    state: "processing",
+    progress: 40,
+    stage: "Rendering",
+  });
+  expect(reloaded.getInput("job-1")?.sceneInput[0].text).toBe("hello");
+});
+
+test("lists only unfinished jobs, oldest first", async () => {
+  const store = new JobStore(config);
+  store.create("job-a", { sceneInput: [], config: {} });
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  store.create("job-b", { sceneInput: [], config: {} });
+  store.create("job-c", { sceneInput: [], config: {} });
+  store.update("job-c", { state: "ready" });
+  store.update("job-a", { state: "processing" });
+
+  expect(store.listUnfinished().map((job) => job.id)).toEqual(["job-a", "job-b"]);
+});
+
+test("ignores updates for unknown jobs", () => {
+  const store = new JobStore(config);
+  expect(store.update("missing", { state: "failed" })).toBeUndefined();
+  expect(store.get("missing")).toBeUndefined();
+});
+
+test("accumulates stage durations across scenes", () => {
+  const store = new JobStore(config);
+  store.create("job-1", { sceneInput: [], config: {} });
+  store.addStageDuration("job-1", "tts", 120);
+  store.addStageDuration("job-1", "tts", 80.4);
+  store.addStageDuration("job-1", "render", 1000);
+
+  expect(new JobStore(config).get("job-1")?.stageDurations).toEqual({
+    tts: 200,
+    render: 1000,
+  });
+});
+
+test("keeps draft render data next to the job until it is removed", () => {
+  const store = new JobStore(config);
+  store.create("job-1", { sceneInput: [], config: { quality: "draft" } });
+  store.saveDraft("job-1", {
+    renderProps: { scenes: [], config: { durationMs: 1000 } } as never,
+    orientations: ["portrait" as never],
+    effects: [],
+    assetPaths: ["/tmp/audio.mp3"],
+  });
+
+  const reloaded = new JobStore(config);
+  expect(reloaded.list().map((job) => job.id)).toEqual(["job-1"]);
+  expect(reloaded.getDraft("job-1")?.assetPaths).toEqual(["/tmp/audio.mp3"]);
+
+  reloaded.remove("job-1");
+  expect(reloaded.getDraft("job-1")).toBeUndefined();
+});
@@ -0,0 +1,228 @@
+/**
+ * Job Store
+ *
+ * Durable, file-based store for render jobs. Every job gets up to three JSON
+ * files in the workspace jobs directory:
+ * - <id>.json        — small state record (state, stage, progress, timestamps,
+ *                       per-stage durations, error details)
+ * - <id>.input.json  — the original scene input and render config
+ * - <id>.draft.json  — only for draft renders: what promote needs to re-render
+ *
+ * The input is written once, the state record is rewritten on every update,
+ * so large base64 uploads are never re-serialized during progress updates.
+ * Writes go through a temp file + rename to survive crashes mid-write.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type z from "zod";
+import type { shortVideoSchema } from "../../components/utils";
+import type { OrientationEnum, RenderConfig, SceneInput } from "../../types/shorts";
+import type { VideoContainer } from "../output/OutputSettings";
+import type { ProcessedEffect } from "../effects/EffectManager";
+
+export type JobState = "queued" | "processing" | "ready" | "failed" | "cancelled";
+
+/** Pipeline stages that are timed separately (durations in ms, summed over scenes) */
+export type JobStageName = "tts" | "captions" | "media" | "render" | "effects";
+
+export interface JobError {
+  message: string;
+  /** Index of the scene that failed, when the error happened while preparing scenes */
+  sceneIndex?: number;
+}
+
+export interface JobRecord {
+  id: string;
+  state: JobState;
+  stage?: string;
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  stageDurations?: Partial<Record<JobStageName, number>>;
+  error?: JobError;
+  quality?: "draft" | "final";
+  /** Set while a draft is being re-rendered at full quality */
+  promoting?: boolean;
+  /** File format of the rendered video, mp4 when missing */
+  container?: VideoContainer;
+  /** Rendered orientations, the first one is the primary output */
+  orientations?: OrientationEnum[];
+  /** Pinned videos are skipped by retention */
+  pinned?: boolean;
+}
+
+export interface JobInput {
+  sceneInput: SceneInput[];
+  config: RenderConfig;
+}
+
+/**
+ * Everything needed to re-render a draft at full quality without running
+ * TTS and Whisper again. assetPaths are kept on disk until promotion.
+ */
+export interface DraftRender {
+  renderProps: z.infer<typeof shortVideoSchema>;
+  orientations: OrientationEnum[];
+  effects: ProcessedEffect[];
+  assetPaths: string[];
+}
+
+export class JobStore {
+  private jobsDir: string;
+  private records: Map<string, JobRecord> = new Map();
+
+  constructor(config: Config) {
+    this.jobsDir = config.jobsDirPath;
+    fs.ensureDirSync(this.jobsDir);
+    this.load();
+  }
+
+  /**
+   * Load all job records from disk into memory
+   */
+  private load(): void {
+    const files = fs.readdirSync(this.jobsDir);
+    for (const file of files) {
+      // only <id>.json are records; skip <id>.input.json, <id>.draft.json
+      if (!/^[^.]+\.json$/.test(file)) {
+        continue;
+      }
+      try {
+        const record = fs.readJsonSync(path.join(this.jobsDir, file)) as JobRecord;
+        this.records.set(record.id, record);
+      } catch (error) {
+        logger.warn({ file, error }, "Failed to read job record, skipping");
+      }
+    }
+    logger.debug({ jobCount: this.records.size }, "Job store loaded");
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.jobsDir, `${id}.json`);
+  }
+
+  private inputPath(id: string): string {
+    return path.join(this.jobsDir, `${id}.input.json`);
+  }
+
+  private draftPath(id: string): string {
+    return path.join(this.jobsDir, `${id}.draft.json`);
+  }
+
+  private writeAtomic(filePath: string, data: unknown): void {
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeJsonSync(tmpPath, data);
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  /**
+   * Persist a new job together with its input
+   */
+  create(
+    id: string,
+    input: JobInput,
+    fields: Pick<JobRecord, "container" | "orientations"> = {},
+  ): JobRecord {
+    const now = new Date().toISOString();
+    const record: JobRecord = {
+      ...fields,
+      id,
+      state: "queued",
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.writeAtomic(this.inputPath(id), input);
+    this.writeAtomic(this.recordPath(id), record);
+    this.records.set(id, record);
+    return record;
+  }
+
+  /**
+   * Update a job record (no-op for unknown ids)
+   */
+  update(id: string, patch: Partial<Omit<JobRecord, "id" | "createdAt">>): JobRecord | undefined {
+    const record = this.records.get(id);
+    if (!record) {
+      return undefined;
+    }
+    Object.assign(record, patch, { updatedAt: new Date().toISOString() });
+    try {
+      this.writeAtomic(this.recordPath(id), record);
+    } catch (error) {
+      logger.warn({ videoId: id, error }, "Failed to persist job record");
+    }
+    return record;
+  }
+
+  /**
+   * Add time spent in a pipeline stage to the job's running total
+   */
+  addStageDuration(id: string, stage: JobStageName, durationMs: number): void {
+    const record = this.records.get(id);
+    if (!record) {
+      return;
+    }
+    const stageDurations = { ...record.stageDurations };
+    stageDurations[stage] = (stageDurations[stage] ?? 0) + Math.round(durationMs);
+    this.update(id, { stageDurations });
+  }
+
+  get(id: string): JobRecord | undefined {
+    return this.records.get(id);
+  }
+
+  getInput(id: string): JobInput | undefined {
+    try {
+      return fs.readJsonSync(this.inputPath(id)) as JobInput;
+    } catch (error) {
+      logger.warn({ videoId: id, error }, "Failed to read job input");
+      return undefined;
+    }
+  }
+
+  saveDraft(id: string, draft: DraftRender): void {
+    this.writeAtomic(this.draftPath(id), draft);
+  }
+
+  getDraft(id: string): DraftRender | undefined {
+    if (!fs.existsSync(this.draftPath(id))) {
+      return undefined;
+    }
+    try {
+      return fs.readJsonSync(this.draftPath(id)) as DraftRender;
+    } catch (error) {
+      logger.warn({ videoId: id, error }, "Failed to read draft render data");
+      return undefined;
+    }
+  }
+
+  removeDraft(id: string): void {
+    fs.removeSync(this.draftPath(id));
+  }
+
+  list(): JobRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Jobs that were queued or rendering when the process stopped, oldest first
+   */
+  listUnfinished(): JobRecord[] {
+    return this.list()
+      .filter((record) => record.state === "queued" || record.state === "processing")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  remove(id: string): void {
+    this.records.delete(id);
+    fs.removeSync(this.recordPath(id));
+    fs.removeSync(this.inputPath(id));
+    fs.removeSync(this.draftPath(id));
+  }
+}
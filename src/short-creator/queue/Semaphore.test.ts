@@ -0,0 +1,33 @@
+import { test, expect } from "vitest";
+
+import { Semaphore } from "./Semaphore";
+
+test("never runs more tasks than the limit", async () => {
+  const semaphore = new Semaphore(2);
+  let running = 0;
+  let maxRunning = 0;
+
+  const task = async () => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    running--;
+  };
+
+  await Promise.all([1, 2, 3, 4, 5].map(() => semaphore.run(task)));
+
+  expect(maxRunning).toBe(2);
+  expect(semaphore.activeCount).toBe(0);
+});
+
+test("releases the slot when a task throws", async () => {
+  const semaphore = new Semaphore(1);
+
+  await expect(
+    semaphore.run(async () => {
+      throw new Error("boom");
+    }),
+  ).rejects.toThrow("boom");
+
+  await expect(semaphore.run(async () => "ok")).resolves.toBe("ok");
+});
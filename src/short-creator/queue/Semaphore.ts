@@ -0,0 +1,62 @@
+/**
+ * Semaphore
+ *
+ * Minimal FIFO counting semaphore used to cap how many jobs run a given
+ * pipeline stage (TTS/Whisper, Remotion rendering) at the same time.
+ */
+export class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Semaphore limit must be a positive integer, got ${limit}`);
+    }
+  }
+
+  /**
+   * Wait for a free slot; resolves with a release function
+   */
+  async acquire(): Promise<() => void> {
+    if (this.active < this.limit) {
+      this.active++;
+    } else {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.waiters.shift();
+      if (next) {
+        // hand the slot over directly, active count stays the same
+        next();
+      } else {
+        this.active--;
+      }
+    };
+  }
+
+  /**
+   * Run a task inside a slot, releasing it when the task settles
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const release = await this.acquire();
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  get pendingCount(): number {
+    return this.waiters.length;
+  }
+}
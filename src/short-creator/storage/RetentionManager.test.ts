@@ -0,0 +1,109 @@
+import { test, expect } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { RetentionManager, selectEvictions, type RetentionCandidate } from "./RetentionManager";
+import type { Config } from "../../config";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse("2025-06-10T00:00:00.000Z");
+
+const videos: RetentionCandidate[] = [
+  { id: "old", bytes: 100, finishedAt: now - 30 * DAY, pinned: false },
+  { id: "old-pinned", bytes: 100, finishedAt: now - 40 * DAY, pinned: true },
+  { id: "week", bytes: 300, finishedAt: now - 7 * DAY, pinned: false },
+  { id: "new", bytes: 200, finishedAt: now - DAY, pinned: false },
+];
+
+test("evicts by age, then oldest first until under the byte limit", () => {
+  expect(selectEvictions(videos, { maxAgeMs: 10 * DAY, maxBytes: null, keepPinned: true }, now)).toEqual([
+    "old",
+  ]);
+  // 700 bytes in total, pinned 100 stays: "old" and "week" have to go
+  expect(selectEvictions(videos, { maxAgeMs: null, maxBytes: 350, keepPinned: true }, now)).toEqual([
+    "old",
+    "week",
+  ]);
+  expect(selectEvictions(videos, { maxAgeMs: 10 * DAY, maxBytes: null, keepPinned: false }, now)).toEqual([
+    "old-pinned",
+    "old",
+  ]);
+  expect(selectEvictions(videos, { maxAgeMs: null, maxBytes: null, keepPinned: true }, now)).toEqual([]);
+});
+
+test("removes stale temp and cache files but keeps protected ones", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "retention-test-"));
+  const config = {
+    tempDirPath: path.join(root, "temp"),
+    cacheDirPath: path.join(root, "cache"),
+    retentionMaxAgeMs: 10 * DAY,
+    retentionMaxBytes: null,
+    retentionKeepPinned: true,
+    tempFileMaxAgeMs: DAY,
+    cacheMaxAgeMs: 7 * DAY,
+  } as Config;
+
+  const writeFile = (filePath: string, ageMs: number) => {
+    fs.outputFileSync(filePath, "data");
+    const time = new Date(now - ageMs);
+    fs.utimesSync(filePath, time, time);
+  };
+  const orphan = path.join(config.tempDirPath, "orphan.wav");
+  const draftAsset = path.join(config.tempDirPath, "draft.mp3");
+  const fresh = path.join(config.tempDirPath, "running.mp4");
+  const staleCache = path.join(config.cacheDirPath, "tts_stale");
+  const freshCache = path.join(config.cacheDirPath, "tts_fresh");
+  writeFile(orphan, 2 * DAY);
+  writeFile(draftAsset, 2 * DAY);
+  writeFile(fresh, 60 * 1000);
+  writeFile(staleCache, 8 * DAY);
+  writeFile(freshCache, DAY);
+
+  const deleted: string[] = [];
+  const manager = new RetentionManager(config, {
+    listVideos: () => videos,
+    deleteVideo: (id) => deleted.push(id),
+    protectedTempPaths: () => new Set([draftAsset]),
+  });
+  const result = manager.run(now);
+
+  expect(deleted).toEqual(["old"]);
+  expect(result).toMatchObject({ evictedVideos: ["old"], removedTempFiles: 1, removedCacheFiles: 1 });
+  expect(result.freedBytes).toBe(100 + 4 + 4);
+  expect(fs.existsSync(orphan)).toBe(false);
+  expect(fs.existsSync(draftAsset)).toBe(true);
+  expect(fs.existsSync(fresh)).toBe(true);
+  expect(fs.existsSync(staleCache)).toBe(false);
+  expect(fs.existsSync(freshCache)).toBe(true);
+});
+
+test("serves the measured usage until it is measured again", async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "retention-test-"));
+  const config = {
+    videosDirPath: path.join(root, "videos"),
+    thumbnailsDirPath: path.join(root, "thumbnails"),
+    tempDirPath: path.join(root, "temp"),
+    cacheDirPath: path.join(root, "cache"),
+    downloadsDirPath: path.join(root, "downloads"),
+  } as Config;
+  fs.outputFileSync(path.join(config.videosDirPath, "a.mp4"), "data");
+  fs.outputFileSync(path.join(config.tempDirPath, "nested", "b.wav"), "more data");
+
+  const manager = new RetentionManager(config, {
+    listVideos: () => videos,
+    deleteVideo: () => {},
+    protectedTempPaths: () => new Set(),
+  });
+  const usage = await manager.usage();
+  expect(usage.renders).toMatchObject({ bytes: 4, files: 1, finishedVideos: 4, pinned: 1 });
+  expect(usage.temp).toEqual({ bytes: 9, files: 1 });
+  expect(usage.downloads).toEqual({ bytes: 0, files: 0 });
+
+  fs.outputFileSync(path.join(config.videosDirPath, "c.mp4"), "data");
+  expect((await manager.workspaceUsage()).renders.files).toBe(1);
+  await manager.refreshUsage();
+  expect((await manager.workspaceUsage()).renders).toEqual({ bytes: 8, files: 2 });
+
+  fs.removeSync(root);
+});
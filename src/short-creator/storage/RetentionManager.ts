@@ -0,0 +1,371 @@
+/**
+ * Retention Manager
+ *
+ * Keeps the workspace from growing forever. On every run it:
+ * - evicts finished videos older than config.retentionMaxAgeMs
+ * - evicts the oldest finished videos while renders exceed config.retentionMaxBytes
+ * - removes orphaned temp files older than config.tempFileMaxAgeMs
+ * - removes cache entries older than config.cacheMaxAgeMs
+ *
+ * Pinned videos are never evicted while config.retentionKeepPinned is set.
+ * Directory sizes are measured in the background and cached, so reading the
+ * usage (e.g. on every /metrics scrape) doesn't walk the workspace.
+ * Which videos exist and how to delete them is up to the owner (ShortCreator),
+ * this class only decides what goes.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+
+const USAGE_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface RetentionCandidate {
+  id: string;
+  /** Size of the rendered outputs and thumbnail */
+  bytes: number;
+  /** When the video finished (ms since epoch) */
+  finishedAt: number;
+  pinned: boolean;
+}
+
+export interface RetentionPolicy {
+  maxAgeMs: number | null;
+  maxBytes: number | null;
+  keepPinned: boolean;
+}
+
+export interface RetentionSource {
+  /** Finished videos that may be evicted; running and queued jobs are left out */
+  listVideos(): RetentionCandidate[];
+  deleteVideo(id: string): void;
+  /** Temp files still needed, e.g. assets of unpromoted drafts */
+  protectedTempPaths(): Set<string>;
+}
+
+export interface RetentionResult {
+  evictedVideos: string[];
+  removedTempFiles: number;
+  removedCacheFiles: number;
+  freedBytes: number;
+}
+
+export interface DirectoryUsage {
+  bytes: number;
+  files: number;
+}
+
+export interface WorkspaceUsage {
+  renders: DirectoryUsage;
+  thumbnails: DirectoryUsage;
+  temp: DirectoryUsage;
+  cache: DirectoryUsage;
+  downloads: DirectoryUsage;
+  /** Free and total space on the workspace volume */
+  disk?: { freeBytes: number; totalBytes: number };
+  measuredAt: string;
+}
+
+export interface StorageUsage extends WorkspaceUsage {
+  renders: DirectoryUsage & { finishedVideos: number; pinned: number };
+  policy: RetentionPolicy;
+  lastRun?: RetentionResult & { at: string };
+}
+
+/**
+ * Ids to evict: everything past the max age first, then the oldest videos
+ * until the total fits into maxBytes
+ */
+export function selectEvictions(
+  candidates: RetentionCandidate[],
+  policy: RetentionPolicy,
+  now: number,
+): string[] {
+  const evictable = candidates
+    .filter((video) => !(policy.keepPinned && video.pinned))
+    .sort((a, b) => a.finishedAt - b.finishedAt);
+  const evicted = new Set<string>();
+
+  if (policy.maxAgeMs !== null) {
+    for (const video of evictable) {
+      if (now - video.finishedAt > policy.maxAgeMs) {
+        evicted.add(video.id);
+      }
+    }
+  }
+
+  if (policy.maxBytes !== null) {
+    let totalBytes = candidates
+      .filter((video) => !evicted.has(video.id))
+      .reduce((sum, video) => sum + video.bytes, 0);
+    for (const video of evictable) {
+      if (totalBytes <= policy.maxBytes) {
+        break;
+      }
+      if (!evicted.has(video.id)) {
+        evicted.add(video.id);
+        totalBytes -= video.bytes;
+      }
+    }
+  }
+
+  return Array.from(evicted);
+}
+
+/**
+ * Size and file count of a directory, recursively; zero when it is missing
+ */
+export function getDirectoryUsage(dirPath: string): DirectoryUsage {
+  const usage: DirectoryUsage = { bytes: 0, files: 0 };
+  if (!fs.existsSync(dirPath)) {
+    return usage;
+  }
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+    try {
+      if (entry.isDirectory()) {
+        const nested = getDirectoryUsage(entryPath);
+        usage.bytes += nested.bytes;
+        usage.files += nested.files;
+      } else {
+        usage.bytes += fs.statSync(entryPath).size;
+        usage.files++;
+      }
+    } catch {
+      // removed while we were counting
+    }
+  }
+  return usage;
+}
+
+/**
+ * Same as getDirectoryUsage, without blocking the event loop
+ */
+export async function measureDirectory(dirPath: string): Promise<DirectoryUsage> {
+  const usage: DirectoryUsage = { bytes: 0, files: 0 };
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    // missing
+    return usage;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    try {
+      if (entry.isDirectory()) {
+        const nested = await measureDirectory(entryPath);
+        usage.bytes += nested.bytes;
+        usage.files += nested.files;
+      } else {
+        usage.bytes += (await fs.stat(entryPath)).size;
+        usage.files++;
+      }
+    } catch {
+      // removed while we were counting
+    }
+  }
+  return usage;
+}
+
+export class RetentionManager {
+  private timer?: NodeJS.Timeout;
+  private usageTimer?: NodeJS.Timeout;
+  private lastRun?: RetentionResult & { at: string };
+  private lastUsage?: WorkspaceUsage;
+  private measuring?: Promise<WorkspaceUsage>;
+
+  constructor(
+    private config: Config,
+    private source: RetentionSource,
+  ) {}
+
+  get policy(): RetentionPolicy {
+    return {
+      maxAgeMs: this.config.retentionMaxAgeMs,
+      maxBytes: this.config.retentionMaxBytes,
+      keepPinned: this.config.retentionKeepPinned,
+    };
+  }
+
+  /**
+   * Run now and then every config.retentionIntervalMs (0 disables the timer).
+   * The workspace usage is measured every minute either way.
+   */
+  start(): void {
+    if (!this.usageTimer) {
+      this.refreshUsageSafely();
+      this.usageTimer = setInterval(() => this.refreshUsageSafely(), USAGE_REFRESH_INTERVAL_MS);
+      this.usageTimer.unref();
+    }
+    if (this.timer || this.config.retentionIntervalMs <= 0) {
+      return;
+    }
+    this.runSafely();
+    this.timer = setInterval(() => this.runSafely(), this.config.retentionIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (this.usageTimer) {
+      clearInterval(this.usageTimer);
+      this.usageTimer = undefined;
+    }
+  }
+
+  private runSafely(): void {
+    try {
+      const result = this.run();
+      if (result.freedBytes > 0) {
+        this.refreshUsageSafely();
+      }
+    } catch (error) {
+      logger.error(error, "Retention run failed");
+    }
+  }
+
+  private refreshUsageSafely(): void {
+    this.refreshUsage().catch((error) => logger.warn({ error }, "Failed to measure workspace usage"));
+  }
+
+  run(now: number = Date.now()): RetentionResult {
+    const result: RetentionResult = {
+      evictedVideos: [],
+      removedTempFiles: 0,
+      removedCacheFiles: 0,
+      freedBytes: 0,
+    };
+
+    const candidates = this.source.listVideos();
+    const sizes = new Map(candidates.map((video) => [video.id, video.bytes]));
+    for (const id of selectEvictions(candidates, this.policy, now)) {
+      try {
+        this.source.deleteVideo(id);
+        result.evictedVideos.push(id);
+        result.freedBytes += sizes.get(id) ?? 0;
+      } catch (error) {
+        logger.warn({ videoId: id, error }, "Failed to evict video");
+      }
+    }
+
+    const protectedPaths = this.source.protectedTempPaths();
+    const temp = this.removeOlderThan(
+      this.config.tempDirPath,
+      now - this.config.tempFileMaxAgeMs,
+      protectedPaths,
+    );
+    result.removedTempFiles = temp.files;
+    result.freedBytes += temp.bytes;
+
+    const cache = this.removeOlderThan(this.config.cacheDirPath, now - this.config.cacheMaxAgeMs);
+    result.removedCacheFiles = cache.files;
+    result.freedBytes += cache.bytes;
+
+    this.lastRun = { ...result, at: new Date(now).toISOString() };
+    if (result.evictedVideos.length || result.removedTempFiles || result.removedCacheFiles) {
+      logger.info(result, "Retention run finished");
+    } else {
+      logger.debug("Retention run finished, nothing to remove");
+    }
+    return result;
+  }
+
+  /**
+   * Remove top-level entries of a directory last modified before cutoff
+   */
+  private removeOlderThan(
+    dirPath: string,
+    cutoff: number,
+    keep: Set<string> = new Set(),
+  ): DirectoryUsage {
+    const removed: DirectoryUsage = { bytes: 0, files: 0 };
+    if (!fs.existsSync(dirPath)) {
+      return removed;
+    }
+    for (const name of fs.readdirSync(dirPath)) {
+      const entryPath = path.join(dirPath, name);
+      if (keep.has(entryPath)) {
+        continue;
+      }
+      try {
+        const stats = fs.statSync(entryPath);
+        if (stats.mtimeMs >= cutoff) {
+          continue;
+        }
+        const usage = stats.isDirectory()
+          ? getDirectoryUsage(entryPath)
+          : { bytes: stats.size, files: 1 };
+        fs.removeSync(entryPath);
+        removed.bytes += usage.bytes;
+        removed.files += usage.files;
+      } catch (error) {
+        logger.warn({ path: entryPath, error }, "Failed to remove stale file");
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Measure the workspace directories again; concurrent calls share one walk
+   */
+  refreshUsage(): Promise<WorkspaceUsage> {
+    if (!this.measuring) {
+      this.measuring = this.measure()
+        .then((usage) => {
+          this.lastUsage = usage;
+          return usage;
+        })
+        .finally(() => {
+          this.measuring = undefined;
+        });
+    }
+    return this.measuring;
+  }
+
+  /**
+   * The last measured workspace usage, measured now if there is none yet
+   */
+  async workspaceUsage(): Promise<WorkspaceUsage> {
+    return this.lastUsage ?? this.refreshUsage();
+  }
+
+  async usage(): Promise<StorageUsage> {
+    const workspace = await this.workspaceUsage();
+    const candidates = this.source.listVideos();
+    return {
+      ...workspace,
+      renders: {
+        ...workspace.renders,
+        finishedVideos: candidates.length,
+        pinned: candidates.filter((video) => video.pinned).length,
+      },
+      policy: this.policy,
+      lastRun: this.lastRun,
+    };
+  }
+
+  private async measure(): Promise<WorkspaceUsage> {
+    let disk: WorkspaceUsage["disk"];
+    try {
+      const stats = await fs.promises.statfs(this.config.videosDirPath);
+      disk = { freeBytes: stats.bavail * stats.bsize, totalBytes: stats.blocks * stats.bsize };
+    } catch (error) {
+      logger.debug({ error }, "Could not read disk usage");
+    }
+
+    return {
+      renders: await measureDirectory(this.config.videosDirPath),
+      thumbnails: await measureDirectory(this.config.thumbnailsDirPath),
+      temp: await measureDirectory(this.config.tempDirPath),
+      cache: await measureDirectory(this.config.cacheDirPath),
+      downloads: await measureDirectory(this.config.downloadsDirPath),
+      disk,
+      measuredAt: new Date().toISOString(),
+    };
+  }
+}
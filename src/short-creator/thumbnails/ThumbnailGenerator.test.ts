@@ -0,0 +1,32 @@
+import { test, expect } from "vitest";
+
+import { laplacianVariance } from "./ThumbnailGenerator";
+
+const size = 16;
+
+function image(pixel: (x: number, y: number) => number): Uint8Array {
+  const pixels = new Uint8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      pixels[y * size + x] = pixel(x, y);
+    }
+  }
+  return pixels;
+}
+
+test("flat frames have no sharpness", () => {
+  expect(laplacianVariance(image(() => 128), size, size)).toBe(0);
+});
+
+test("hard edges score higher than soft gradients", () => {
+  const sharp = image((x, y) => ((Math.floor(x / 2) + Math.floor(y / 2)) % 2 ? 255 : 0));
+  const soft = image((x) => x * 16);
+
+  expect(laplacianVariance(sharp, size, size)).toBeGreaterThan(
+    laplacianVariance(soft, size, size),
+  );
+});
+
+test("images too small for the kernel score zero", () => {
+  expect(laplacianVariance(new Uint8Array(4), 2, 2)).toBe(0);
+});
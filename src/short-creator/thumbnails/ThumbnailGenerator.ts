@@ -0,0 +1,161 @@
+/**
+ * Thumbnail Generator
+ *
+ * Picks a cover frame for a finished video (the sharpest of a few evenly
+ * spaced candidates, or the frame at renderConfig.thumbnail.atSeconds) and
+ * saves it as a JPEG in the workspace thumbnails directory. With a title the
+ * frame goes through the Remotion Thumbnail composition, so the text is drawn
+ * by the same TextOverlay component as in the videos.
+ */
+
+import path from "path";
+import fs from "fs-extra";
+import cuid from "cuid";
+import ffmpeg from "fluent-ffmpeg";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type { Remotion } from "../libraries/Remotion";
+import type { OrientationEnum, RenderConfig } from "../../types/shorts";
+
+const CANDIDATE_FRAMES = 8;
+// candidates are compared on a small grayscale copy, full frames aren't needed for that
+const SAMPLE_WIDTH = 160;
+
+export type ThumbnailOptions = NonNullable<RenderConfig["thumbnail"]>;
+
+/**
+ * Variance of the Laplacian of a grayscale image: higher means more edges,
+ * i.e. a sharper frame. Motion blur and fades score low.
+ */
+export function laplacianVariance(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value =
+        pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+      sum += value;
+      sumOfSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) {
+    return 0;
+  }
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+export class ThumbnailGenerator {
+  constructor(
+    private config: Config,
+    private remotion: Remotion,
+  ) {}
+
+  getPath(videoId: string): string {
+    return path.join(this.config.thumbnailsDirPath, `${videoId}.jpg`);
+  }
+
+  exists(videoId: string): boolean {
+    return fs.existsSync(this.getPath(videoId));
+  }
+
+  remove(videoId: string): void {
+    fs.removeSync(this.getPath(videoId));
+  }
+
+  async generate(
+    videoId: string,
+    videoPath: string,
+    durationSeconds: number,
+    orientation: OrientationEnum,
+    options: ThumbnailOptions = {},
+  ): Promise<string> {
+    const atSeconds =
+      options.atSeconds !== undefined
+        ? Math.min(options.atSeconds, Math.max(0, durationSeconds - 0.1))
+        : await this.findSharpestTime(videoPath, durationSeconds);
+    const outputPath = this.getPath(videoId);
+    logger.debug({ videoId, atSeconds }, "Generating thumbnail");
+
+    if (!options.title) {
+      await this.extractFrame(videoPath, atSeconds, outputPath);
+      return outputPath;
+    }
+
+    // Remotion loads images over HTTP, so the frame is served from the temp dir
+    const frameFileName = `${cuid()}.jpg`;
+    const framePath = path.join(this.config.tempDirPath, frameFileName);
+    try {
+      await this.extractFrame(videoPath, atSeconds, framePath);
+      await this.remotion.renderThumbnail(
+        {
+          image: `http://localhost:${this.config.port}/api/tmp/${frameFileName}`,
+          title: options.title,
+          titleStyle: options.titleStyle,
+        },
+        outputPath,
+        orientation,
+      );
+    } finally {
+      await fs.remove(framePath);
+    }
+    return outputPath;
+  }
+
+  private async findSharpestTime(videoPath: string, durationSeconds: number): Promise<number> {
+    let best = { time: durationSeconds / 2, score: -1 };
+    for (let i = 0; i < CANDIDATE_FRAMES; i++) {
+      // stay away from the first and last 10%, fades and black frames live there
+      const time = durationSeconds * (0.1 + (0.8 * i) / (CANDIDATE_FRAMES - 1));
+      try {
+        const pixels = await this.sampleFrame(videoPath, time);
+        const height = Math.floor(pixels.length / SAMPLE_WIDTH);
+        const score = laplacianVariance(pixels, SAMPLE_WIDTH, height);
+        if (score > best.score) {
+          best = { time, score };
+        }
+      } catch (error) {
+        logger.debug({ videoPath, time, error }, "Failed to sample thumbnail candidate");
+      }
+    }
+    return best.time;
+  }
+
+  /**
+   * One frame as raw 8-bit grayscale pixels, SAMPLE_WIDTH wide
+   */
+  private sampleFrame(videoPath: string, time: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      ffmpeg(videoPath)
+        .seekInput(time)
+        .frames(1)
+        .videoFilters([`scale=${SAMPLE_WIDTH}:-2`, "format=gray"])
+        .outputOptions(["-f", "rawvideo"])
+        .on("error", reject)
+        .pipe()
+        .on("data", (chunk: Buffer) => chunks.push(chunk))
+        .on("end", () => resolve(Buffer.concat(chunks)))
+        .on("error", reject);
+    });
+  }
+
+  private extractFrame(videoPath: string, time: number, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      ffmpeg(videoPath)
+        .seekInput(time)
+        .frames(1)
+        .outputOptions(["-q:v", "2"])
+        .on("end", () => resolve())
+        .on("error", reject)
+        .save(outputPath);
+    });
+  }
+}
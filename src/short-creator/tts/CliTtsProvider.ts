@@ -0,0 +1,164 @@
+/**
+ * CLI TTS Provider
+ *
+ * Runs a local speech engine binary: Piper (neural voices, one .onnx model per
+ * voice) or espeak-ng (formant synthesis, many languages, tiny footprint).
+ * Text goes to stdin, the WAV file is written to the temp directory and
+ * removed once read.
+ */
+
+import { spawn } from "child_process";
+import path from "path";
+import fs from "fs-extra";
+import cuid from "cuid";
+import { logger } from "../../logger";
+import {
+  voicesSupportLanguage,
+  type TtsProvider,
+  type TtsResult,
+  type TtsVoice,
+} from "./TtsProvider";
+import { getWavDuration, toArrayBuffer } from "./wav";
+
+export type CliTtsEngine = "piper" | "espeak-ng";
+
+export interface CliTtsOptions {
+  engine: CliTtsEngine;
+  /** Binary to run, defaults to the engine name on PATH */
+  binaryPath?: string;
+  /** Directory with Piper models (<voice>.onnx + <voice>.onnx.json) */
+  voicesDir?: string;
+  tempDirPath: string;
+}
+
+/**
+ * Run a command with the text on stdin; resolves with stdout
+ */
+function runCommand(
+  binary: string,
+  args: string[],
+  input: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary, args, { signal });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (data) => (stdout += data));
+    child.stderr.on("data", (data) => (stderr += data));
+    child.on("error", (error) => {
+      reject(signal?.aborted ? signal.reason : error);
+    });
+    child.on("close", (code) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+      } else if (code !== 0) {
+        reject(new Error(`${path.basename(binary)} exited with code ${code}: ${stderr.trim()}`));
+      } else {
+        resolve(stdout);
+      }
+    });
+    child.stdin.on("error", () => {
+      // the process died before reading stdin; "close" reports why
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Parse `espeak-ng --voices`:
+ *  Pty Language       Age/Gender VoiceName          File                 Other Languages
+ *   5  af              --/M      Afrikaans          gmw/af
+ */
+function parseEspeakVoices(output: string): TtsVoice[] {
+  return output
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim().split(/\s+/))
+    .filter((columns) => columns.length >= 5)
+    .map(([, language, ageGender, name]) => {
+      const gender = ageGender.endsWith("F") ? "female" : ageGender.endsWith("M") ? "male" : undefined;
+      return { id: language, language, name, ...(gender && { gender }) };
+    });
+}
+
+/**
+ * Piper voices are named <language>_<REGION>-<name>-<quality>, e.g. en_US-lessac-medium
+ */
+function listPiperVoices(voicesDir: string): TtsVoice[] {
+  if (!fs.existsSync(voicesDir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(voicesDir)
+    .filter((file) => file.endsWith(".onnx"))
+    .map((file) => {
+      const id = file.slice(0, -".onnx".length);
+      return { id, language: id.split("-")[0].replace("_", "-") };
+    });
+}
+
+export class CliTtsProvider implements TtsProvider {
+  readonly name: CliTtsEngine;
+  readonly defaultVoice: string;
+  private binary: string;
+
+  private constructor(
+    private options: CliTtsOptions,
+    private voices: TtsVoice[],
+  ) {
+    this.name = options.engine;
+    this.binary = options.binaryPath || options.engine;
+    const english = voices.find((voice) => voice.language.toLowerCase().startsWith("en"));
+    this.defaultVoice = (english ?? voices[0]).id;
+  }
+
+  async generate(text: string, voice: string, signal?: AbortSignal): Promise<TtsResult> {
+    const outputPath = path.join(this.options.tempDirPath, `${cuid()}.tts.wav`);
+    const args =
+      this.options.engine === "piper"
+        ? ["--model", path.join(this.options.voicesDir ?? "", `${voice}.onnx`), "--output_file", outputPath]
+        : ["-v", voice, "-w", outputPath, "--stdin"];
+
+    try {
+      await runCommand(this.binary, args, text, signal);
+      const audio = await fs.readFile(outputPath);
+      const audioLength = getWavDuration(audio);
+      logger.debug({ text, voice, audioLength }, `Audio generated with ${this.options.engine}`);
+      return { audio: toArrayBuffer(audio), audioLength };
+    } finally {
+      await fs.remove(outputPath);
+    }
+  }
+
+  listVoices(): TtsVoice[] {
+    return this.voices;
+  }
+
+  supportsLanguage(language: string, voice?: string): boolean {
+    return voicesSupportLanguage(this.voices, language, voice);
+  }
+
+  // Piper voices are model files, so the directory picks the model
+  cacheKey(): string {
+    return `${this.binary}:${this.options.voicesDir ?? ""}`;
+  }
+
+  static async init(options: CliTtsOptions): Promise<CliTtsProvider> {
+    const binary = options.binaryPath || options.engine;
+    let voices: TtsVoice[];
+    if (options.engine === "piper") {
+      if (!options.voicesDir) {
+        throw new Error("PIPER_VOICES_DIR must point to a directory with Piper voice models");
+      }
+      voices = listPiperVoices(options.voicesDir);
+    } else {
+      voices = parseEspeakVoices(await runCommand(binary, ["--voices"], ""));
+    }
+    if (voices.length === 0) {
+      throw new Error(`No voices found for ${options.engine}`);
+    }
+    logger.debug({ engine: options.engine, voices: voices.length }, "CLI TTS provider initialized");
+    return new CliTtsProvider(options, voices);
+  }
+}
@@ -0,0 +1,99 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { OpenAiTtsProvider } from "./OpenAiTtsProvider";
+
+/**
+ * 16-bit mono PCM WAV of the given length; the data size can be left unset
+ * like streaming servers do
+ */
+function makeWav(seconds: number, sampleRate = 24000, unsetDataSize = false): Buffer {
+  const data = Buffer.alloc(Math.round(seconds * sampleRate) * 2);
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(unsetDataSize ? 0xffffffff : data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+let server: http.Server;
+let baseUrl: string;
+const requests: { auth?: string; body: Record<string, unknown> }[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(raw);
+      requests.push({ auth: req.headers.authorization, body });
+      if (req.url !== "/v1/audio/speech" || body.voice === "broken") {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "bad voice" }));
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "audio/wav" });
+      res.end(makeWav(1.5, 24000, body.voice === "nova"));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test("requests WAV speech and measures its length", async () => {
+  const provider = new OpenAiTtsProvider({
+    baseUrl: `${baseUrl}/`,
+    apiKey: "secret",
+    model: "tts-1",
+    voices: ["alloy", "nova"],
+    languages: ["en", "de"],
+  });
+
+  const result = await provider.generate("Hello there", "alloy");
+  expect(result.audioLength).toBeCloseTo(1.5);
+  expect(result.audio.byteLength).toBe(44 + 1.5 * 24000 * 2);
+  expect(requests.at(-1)).toEqual({
+    auth: "Bearer secret",
+    body: { model: "tts-1", input: "Hello there", voice: "alloy", response_format: "wav" },
+  });
+
+  // streamed response without a data size
+  expect((await provider.generate("Hi", "nova")).audioLength).toBeCloseTo(1.5);
+
+  expect(provider.defaultVoice).toBe("alloy");
+  expect(provider.listVoices().map((voice) => voice.id)).toEqual(["alloy", "nova"]);
+  expect(provider.supportsLanguage("de-AT")).toBe(true);
+  expect(provider.supportsLanguage("ja")).toBe(false);
+});
+
+test("surfaces API errors and cancellation", async () => {
+  const provider = new OpenAiTtsProvider({
+    baseUrl,
+    model: "tts-1",
+    voices: ["broken"],
+    languages: ["en"],
+  });
+
+  await expect(provider.generate("Hello", "broken")).rejects.toThrow("TTS API error: 400");
+  expect(requests.at(-1)?.auth).toBeUndefined();
+
+  const controller = new AbortController();
+  const reason = new Error("job cancelled");
+  controller.abort(reason);
+  await expect(provider.generate("Hello", "alloy", controller.signal)).rejects.toBe(reason);
+});
@@ -0,0 +1,88 @@
+/**
+ * OpenAI-compatible TTS Provider
+ *
+ * Calls POST <baseUrl>/audio/speech with {model, input, voice,
+ * response_format: "wav"}. Works with the OpenAI API itself and with local
+ * servers that copy its interface (openedai-speech, Kokoro-FastAPI, LocalAI).
+ * The API has no voice listing, so voices come from the config.
+ */
+
+import { logger } from "../../logger";
+import {
+  voicesSupportLanguage,
+  type TtsProvider,
+  type TtsResult,
+  type TtsVoice,
+} from "./TtsProvider";
+import { getWavDuration, toArrayBuffer } from "./wav";
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+export interface OpenAiTtsOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  voices: string[];
+  /** Languages the model speaks; the OpenAI models are multilingual */
+  languages: string[];
+}
+
+export class OpenAiTtsProvider implements TtsProvider {
+  readonly name = "openai";
+  readonly defaultVoice: string;
+  private voices: TtsVoice[];
+
+  constructor(private options: OpenAiTtsOptions) {
+    if (options.voices.length === 0) {
+      throw new Error("OpenAI TTS provider needs at least one voice");
+    }
+    this.defaultVoice = options.voices[0];
+    // the voices speak every configured language; list them under the first one
+    this.voices = options.voices.map((id) => ({ id, language: options.languages[0] ?? "en" }));
+  }
+
+  async generate(text: string, voice: string, signal?: AbortSignal): Promise<TtsResult> {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, "")}/audio/speech`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        input: text,
+        voice,
+        response_format: "wav",
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    }).catch((error: unknown) => {
+      // keep the job's cancellation reason so the runner sees a cancel, not a failure
+      throw signal?.aborted ? signal.reason : error;
+    });
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => "");
+      throw new Error(`TTS API error: ${response.status} ${response.statusText} ${details}`.trim());
+    }
+
+    const audio = Buffer.from(await response.arrayBuffer());
+    const audioLength = getWavDuration(audio);
+    logger.debug({ text, voice, audioLength }, "Audio generated with OpenAI-compatible TTS");
+    return { audio: toArrayBuffer(audio), audioLength };
+  }
+
+  listVoices(): TtsVoice[] {
+    return this.voices;
+  }
+
+  // every voice speaks every configured language
+  supportsLanguage(language: string): boolean {
+    const languages = this.options.languages.map((code) => ({ id: code, language: code }));
+    return voicesSupportLanguage(languages, language);
+  }
+
+  cacheKey(): string {
+    return `${this.options.baseUrl}:${this.options.model}`;
+  }
+}
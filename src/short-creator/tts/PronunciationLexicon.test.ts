@@ -0,0 +1,35 @@
+import { test, expect } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { PronunciationLexicon } from "./PronunciationLexicon";
+import type { Config } from "../../config";
+
+const american = { id: "af_heart", language: "en-US" };
+const british = { id: "bf_emma", language: "en-GB" };
+
+test("replaces whole terms in scope, longest first, and persists", () => {
+  const lexiconPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "lexicon-test-")), "lexicon.json");
+  const lexicon = new PronunciationLexicon({ lexiconPath } as Config);
+  lexicon.replace([
+    { term: "Nguyen", replacement: "win" },
+    { term: "GIF", replacement: "jif", caseSensitive: true },
+    { term: "New York Times", replacement: "New York Times newspaper" },
+    { term: "New York", replacement: "Noo York" },
+    { term: "tomato", replacement: "tomahto", languages: ["en-GB"] },
+    { term: "Okonkwo", replacement: "oh-KONG-kwo", voices: ["af_heart"] },
+  ]);
+
+  expect(lexicon.apply("Detective Nguyen's GIF of the New York Times, not a gif.", american)).toBe(
+    "Detective win's jif of the New York Times newspaper, not a gif.",
+  );
+  // whole words only, and a replacement is not replaced again
+  expect(lexicon.apply("Nguyenville in New York", american)).toBe("Nguyenville in Noo York");
+  expect(lexicon.apply("tomato Okonkwo", american)).toBe("tomato oh-KONG-kwo");
+  expect(lexicon.apply("tomato Okonkwo", british)).toBe("tomahto Okonkwo");
+
+  const reloaded = new PronunciationLexicon({ lexiconPath } as Config);
+  expect(reloaded.list()).toHaveLength(6);
+  expect(reloaded.apply("Nguyen", british)).toBe("win");
+});
@@ -0,0 +1,86 @@
+/**
+ * Pronunciation Lexicon
+ *
+ * Project-wide list of terms the TTS gets wrong (brand names, acronyms,
+ * surnames) and what to say instead. Stored as JSON in the workspace and
+ * applied to the spoken text only; captions keep the original spelling.
+ */
+
+import fs from "fs-extra";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type { LexiconEntry } from "../../types/shorts";
+import { baseLanguage, type TtsVoice } from "./TtsProvider";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function matchesLanguage(scopes: string[], language: string): boolean {
+  return scopes.some((scope) =>
+    scope.includes("-")
+      ? scope.toLowerCase() === language.toLowerCase()
+      : scope.toLowerCase() === baseLanguage(language),
+  );
+}
+
+export class PronunciationLexicon {
+  private filePath: string;
+  private entries: LexiconEntry[] = [];
+
+  constructor(config: Config) {
+    this.filePath = config.lexiconPath;
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    try {
+      this.entries = (fs.readJsonSync(this.filePath) as { entries: LexiconEntry[] }).entries;
+    } catch (error) {
+      logger.warn({ error }, "Failed to read the pronunciation lexicon, starting empty");
+    }
+  }
+
+  list(): LexiconEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Replace the whole lexicon and persist it
+   */
+  replace(entries: LexiconEntry[]): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeJsonSync(tmpPath, { entries }, { spaces: 2 });
+    fs.renameSync(tmpPath, this.filePath);
+    this.entries = entries;
+    logger.info({ entryCount: entries.length }, "Pronunciation lexicon updated");
+  }
+
+  /**
+   * Text with every term in scope for the voice replaced. Terms match whole
+   * words, longest first, in a single pass so replacements aren't replaced again.
+   */
+  apply(text: string, voice: TtsVoice): string {
+    const entries = this.entries
+      .filter((entry) => !entry.voices || entry.voices.includes(voice.id))
+      .filter((entry) => !entry.languages || matchesLanguage(entry.languages, voice.language))
+      .sort((a, b) => b.term.length - a.term.length);
+    if (entries.length === 0) {
+      return text;
+    }
+
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])(?:${entries.map((entry) => escapeRegExp(entry.term)).join("|")})(?![\\p{L}\\p{N}_])`,
+      "giu",
+    );
+    return text.replace(pattern, (match) => {
+      const entry = entries.find((candidate) =>
+        candidate.caseSensitive ? candidate.term === match : candidate.term.toLowerCase() === match.toLowerCase(),
+      );
+      return entry ? entry.replacement : match;
+    });
+  }
+}
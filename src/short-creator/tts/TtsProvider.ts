@@ -0,0 +1,60 @@
+/**
+ * TTS Provider
+ *
+ * Common interface of the speech engines. Every provider returns a WAV file;
+ * ShortCreator normalizes it for Whisper and converts it to mp3, so sample
+ * rate and channel count don't matter.
+ */
+
+export interface TtsVoice {
+  id: string;
+  /** BCP 47 language tag, e.g. "en-US", or just the language ("de") */
+  language: string;
+  gender?: "female" | "male";
+  /** Human readable name when it differs from the id */
+  name?: string;
+}
+
+export interface TtsResult {
+  /** WAV file */
+  audio: ArrayBuffer;
+  /** Length of the audio in seconds */
+  audioLength: number;
+}
+
+export interface TtsProvider {
+  /** Name used in renderConfig.ttsProvider and /api/voices */
+  readonly name: string;
+  /** Voice used when the request doesn't pick one */
+  readonly defaultVoice: string;
+
+  generate(text: string, voice: string, signal?: AbortSignal): Promise<TtsResult>;
+  listVoices(): TtsVoice[];
+  /**
+   * Whether the provider has a voice for the language ("en", "en-GB", ...),
+   * or whether the given voice speaks it
+   */
+  supportsLanguage(language: string, voice?: string): boolean;
+  /**
+   * The model, engine or endpoint behind the voices, as part of the speech
+   * cache key: cached audio of another model must not be served
+   */
+  cacheKey(): string;
+}
+
+/**
+ * Primary subtag of a language tag, lower case: "en-GB" -> "en"
+ */
+export function baseLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * supportsLanguage for providers with a fixed voice list
+ */
+export function voicesSupportLanguage(voices: TtsVoice[], language: string, voice?: string): boolean {
+  return voices.some(
+    (candidate) =>
+      (!voice || candidate.id === voice) && baseLanguage(candidate.language) === baseLanguage(language),
+  );
+}
@@ -0,0 +1,46 @@
+import { test, expect } from "vitest";
+
+import { TtsRegistry } from "./TtsRegistry";
+import { voicesSupportLanguage, type TtsProvider, type TtsVoice } from "./TtsProvider";
+
+function fakeProvider(name: string, defaultVoice: string, voices: TtsVoice[]): TtsProvider {
+  return {
+    name,
+    defaultVoice,
+    generate: async () => {
+      throw new Error("not used");
+    },
+    listVoices: () => voices,
+    supportsLanguage: (language, voice) => voicesSupportLanguage(voices, language, voice),
+    cacheKey: () => name,
+  };
+}
+
+const tts = new TtsRegistry("kokoro")
+  .register(fakeProvider("kokoro", "af_heart", [{ id: "af_heart", language: "en-US" }]))
+  .register(
+    fakeProvider("piper", "en_US-lessac-medium", [
+      { id: "en_US-lessac-medium", language: "en-US" },
+      { id: "ru_RU-irina-medium", language: "ru-RU" },
+      { id: "es_ES-davefx-medium", language: "es-ES" },
+    ]),
+  );
+
+test("picks a provider and voice for the language", () => {
+  expect(tts.resolve(undefined, undefined, "en")).toMatchObject({ provider: { name: "kokoro" }, voice: "af_heart" });
+  expect(tts.resolve(undefined, undefined, "ru")).toMatchObject({
+    provider: { name: "piper" },
+    voice: "ru_RU-irina-medium",
+  });
+  expect(tts.resolve("piper", "es_ES-davefx-medium", "es-MX").voice).toBe("es_ES-davefx-medium");
+});
+
+test("rejects voices and providers that don't speak the language", () => {
+  expect(() => tts.resolve("piper", "en_US-lessac-medium", "ru")).toThrow(
+    'Voice "en_US-lessac-medium" of TTS provider "piper" doesn\'t speak language "ru"',
+  );
+  expect(() => tts.resolve("kokoro", undefined, "pt-BR")).toThrow(
+    'TTS provider "kokoro" has no voice for language "pt-BR"',
+  );
+  expect(() => tts.resolve(undefined, undefined, "pt")).toThrow('has no voice for language "pt"');
+});
@@ -0,0 +1,142 @@
+/**
+ * TTS Registry
+ *
+ * The providers available on this server, keyed by name. Requests pick one
+ * with renderConfig.ttsProvider; without it the configured default is used,
+ * or the first provider that speaks the requested language.
+ */
+
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type { Kokoro } from "../libraries/Kokoro";
+import { CliTtsProvider } from "./CliTtsProvider";
+import { OpenAiTtsProvider } from "./OpenAiTtsProvider";
+import type { TtsProvider, TtsVoice } from "./TtsProvider";
+
+export interface ResolvedVoice {
+  provider: TtsProvider;
+  voice: string;
+}
+
+export class TtsRegistry {
+  private providers: Map<string, TtsProvider> = new Map();
+
+  constructor(private defaultProviderName: string) {}
+
+  register(provider: TtsProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Provider by name, or the default one
+   */
+  get(name?: string): TtsProvider {
+    const providerName = name ?? this.defaultProviderName;
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new Error(
+        `Unknown TTS provider "${providerName}". Available providers: ${this.names().join(", ") || "none"}`,
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Provider and voice a request will be spoken with. Without a voice, the
+   * provider's default is used, or its first voice for the language. Throws
+   * when either is unknown or doesn't speak the language, so bad requests
+   * fail before they are queued.
+   */
+  resolve(providerName?: string, voice?: string, language?: string): ResolvedVoice {
+    const provider = providerName || !language ? this.get(providerName) : this.providerForLanguage(language);
+
+    if (!voice) {
+      if (!language || provider.supportsLanguage(language, provider.defaultVoice)) {
+        return { provider, voice: provider.defaultVoice };
+      }
+      const match = provider.listVoices().find((candidate) => provider.supportsLanguage(language, candidate.id));
+      if (!match) {
+        throw new Error(
+          `TTS provider "${provider.name}" has no voice for language "${language}". See /api/voices for the list`,
+        );
+      }
+      return { provider, voice: match.id };
+    }
+
+    if (!provider.listVoices().some((known) => known.id === voice)) {
+      throw new Error(
+        `Voice "${voice}" is not available in TTS provider "${provider.name}". See /api/voices for the list`,
+      );
+    }
+    if (language && !provider.supportsLanguage(language, voice)) {
+      throw new Error(`Voice "${voice}" of TTS provider "${provider.name}" doesn't speak language "${language}"`);
+    }
+    return { provider, voice };
+  }
+
+  /**
+   * The default provider when it speaks the language, else the first one that does
+   */
+  private providerForLanguage(language: string): TtsProvider {
+    const defaultProvider = this.get();
+    if (defaultProvider.supportsLanguage(language)) {
+      return defaultProvider;
+    }
+    return Array.from(this.providers.values()).find((provider) => provider.supportsLanguage(language)) ?? defaultProvider;
+  }
+
+  listVoicesByProvider(): Record<string, TtsVoice[]> {
+    return Object.fromEntries(
+      Array.from(this.providers, ([name, provider]) => [name, provider.listVoices()]),
+    );
+  }
+
+  /**
+   * Kokoro plus the providers enabled in the config. An optional provider
+   * that fails to start is left out, unless it is the default one.
+   */
+  static async init(config: Config, kokoro: Kokoro): Promise<TtsRegistry> {
+    const registry = new TtsRegistry(config.ttsProvider).register(kokoro);
+
+    if (config.ttsCliEngine) {
+      try {
+        registry.register(
+          await CliTtsProvider.init({
+            engine: config.ttsCliEngine,
+            binaryPath: config.ttsCliPath,
+            voicesDir: config.piperVoicesDir,
+            tempDirPath: config.tempDirPath,
+          }),
+        );
+      } catch (error) {
+        logger.warn(error, `Could not initialize the ${config.ttsCliEngine} TTS provider`);
+      }
+    }
+
+    if (config.openaiTtsBaseUrl) {
+      registry.register(
+        new OpenAiTtsProvider({
+          baseUrl: config.openaiTtsBaseUrl,
+          apiKey: config.openaiTtsApiKey,
+          model: config.openaiTtsModel,
+          voices: config.openaiTtsVoices,
+          languages: config.openaiTtsLanguages,
+        }),
+      );
+    }
+
+    // fail at startup rather than on every request
+    registry.get();
+    logger.debug({ providers: registry.names(), default: config.ttsProvider }, "TTS providers initialized");
+    return registry;
+  }
+}
@@ -0,0 +1,45 @@
+import { test, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { loadNarration } from "./narration";
+
+const recording = Buffer.from("ID3 fake mp3 bytes");
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === "/voiceover.mp3") {
+      res.writeHead(200, { "Content-Type": "audio/mpeg" });
+      res.end(recording);
+      return;
+    }
+    res.writeHead(404);
+    res.end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+test("loads narration from a URL or an upload", async () => {
+  const downloaded = await loadNarration({ type: "url", url: `${baseUrl}/voiceover.mp3` });
+  expect(Buffer.from(downloaded)).toEqual(recording);
+
+  const uploaded = await loadNarration({
+    type: "file",
+    file: {
+      filename: "voiceover.mp3",
+      mimeType: "audio/mpeg",
+      data: `data:audio/mpeg;base64,${recording.toString("base64")}`,
+    },
+  });
+  expect(Buffer.from(uploaded)).toEqual(recording);
+
+  await expect(loadNarration({ type: "url", url: `${baseUrl}/missing.mp3` })).rejects.toThrow("HTTP 404");
+});
@@ -0,0 +1,57 @@
+/**
+ * Narration
+ *
+ * Recorded voiceover given with a scene instead of TTS: downloaded or
+ * decoded here, then normalized and transcribed like synthesized speech.
+ */
+
+import { logger } from "../../logger";
+import type { FileUpload, Narration } from "../../types/shorts";
+import { toArrayBuffer } from "./wav";
+
+const MAX_NARRATION_BYTES = 100 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+function decodeUpload(file: FileUpload): Buffer {
+  if (typeof file.data === "string") {
+    // base64, possibly as a data URL
+    const base64Content = file.data.includes(",") ? file.data.split(",")[1] : file.data;
+    return Buffer.from(base64Content, "base64");
+  }
+  if (Buffer.isBuffer(file.data)) {
+    return file.data;
+  }
+  throw new Error(`Invalid data for narration file "${file.filename}"`);
+}
+
+async function download(url: string, signal?: AbortSignal): Promise<Buffer> {
+  const timeout = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+  const response = await fetch(url, {
+    signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+  }).catch((error: unknown) => {
+    throw signal?.aborted ? signal.reason : new Error(`Failed to download narration from ${url}: ${error}`);
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download narration from ${url}: HTTP ${response.status}`);
+  }
+  const contentLength = parseInt(response.headers.get("content-length") ?? "0", 10);
+  if (contentLength > MAX_NARRATION_BYTES) {
+    throw new Error(`Narration file too large: ${contentLength} bytes (max: ${MAX_NARRATION_BYTES} bytes)`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * The narration audio as given, in whatever format ffmpeg can read
+ */
+export async function loadNarration(narration: Narration, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const audio = narration.type === "url" ? await download(narration.url, signal) : decodeUpload(narration.file);
+  if (audio.length === 0) {
+    throw new Error("Narration audio is empty");
+  }
+  if (audio.length > MAX_NARRATION_BYTES) {
+    throw new Error(`Narration file too large: ${audio.length} bytes (max: ${MAX_NARRATION_BYTES} bytes)`);
+  }
+  logger.debug({ source: narration.type, bytes: audio.length }, "Narration audio loaded");
+  return toArrayBuffer(audio);
+}
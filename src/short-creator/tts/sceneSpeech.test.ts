@@ -0,0 +1,106 @@
+import { test, expect, vi } from "vitest";
+
+import {
+  assignSpeakers,
+  resolveSceneSpeech,
+  resolveSpeakerColors,
+  synthesizeSceneSpeech,
+} from "./sceneSpeech";
+import { TtsRegistry } from "./TtsRegistry";
+import type { TtsProvider } from "./TtsProvider";
+import { getWavDuration, readWav, toArrayBuffer } from "./wav";
+
+// 1 kHz mono 16-bit, one second per word, every sample set to 1
+function speak(text: string): Buffer {
+  const data = Buffer.alloc(text.split(" ").length * 1000 * 2);
+  for (let i = 0; i < data.length; i += 2) {
+    data.writeInt16LE(1, i);
+  }
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVEfmt ", 8, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(1000, 24);
+  header.writeUInt32LE(2000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+const provider: TtsProvider = {
+  name: "fake",
+  defaultVoice: "anna",
+  generate: vi.fn(async (text: string) => {
+    const audio = speak(text);
+    return { audio: toArrayBuffer(audio), audioLength: getWavDuration(audio) };
+  }),
+  listVoices: () => [
+    { id: "anna", language: "en" },
+    { id: "bob", language: "en" },
+  ],
+  supportsLanguage: () => true,
+  cacheKey: () => "fake",
+};
+const tts = new TtsRegistry("fake").register(provider);
+
+test("synthesizes dialogue lines with their voices and joins them with gaps", async () => {
+  const scene = {
+    text: "",
+    searchTerms: ["talk"],
+    voiceSpeed: 1.2,
+    dialogueGapMs: 500,
+    dialogue: [
+      { speaker: "Host", text: "hi there" },
+      { speaker: "Guest", voice: "bob", text: "hello" },
+    ],
+  };
+  const speech = resolveSceneSpeech(tts, scene, { voice: "anna" });
+  expect(speech.segments.map((segment) => segment.voice)).toEqual(["anna", "bob"]);
+  expect(speech.voiceSpeed).toBe(1.2);
+
+  const result = await synthesizeSceneSpeech(speech);
+  expect(result.audioLength).toBe(3.5);
+  expect(result.turns).toEqual([
+    { speaker: "Host", startMs: 0, endMs: 2000 },
+    { speaker: "Guest", startMs: 2500, endMs: 3500 },
+  ]);
+  const { data } = readWav(Buffer.from(result.audio));
+  expect(data.length).toBe(3500 * 2);
+  // the gap is silent
+  expect(data.readInt16LE(2200 * 2)).toBe(0);
+  expect(data.readInt16LE(2600 * 2)).toBe(1);
+
+  expect(() =>
+    resolveSceneSpeech(tts, { ...scene, dialogue: [{ speaker: "X", voice: "nobody", text: "a" }] }, {}),
+  ).toThrow('Voice "nobody" is not available in TTS provider "fake"');
+});
+
+test("tags caption words with speakers and picks speaker colors", () => {
+  const captions = assignSpeakers(
+    [
+      { text: "hi", startMs: 0, endMs: 900 },
+      { text: "there", startMs: 1000, endMs: 1900 },
+      { text: "hello", startMs: 2400, endMs: 3400 },
+    ],
+    [
+      { speaker: "Host", startMs: 0, endMs: 2000 },
+      { speaker: "Guest", startMs: 2500, endMs: 3500 },
+    ],
+  );
+  expect(captions.map((caption) => caption.speaker)).toEqual(["Host", "Host", "Guest"]);
+
+  const scenes = [
+    { text: "", dialogue: [{ speaker: "Host", text: "a" }, { speaker: "Guest", text: "b" }] },
+    { text: "", dialogue: [{ speaker: "Third", text: "c" }] },
+  ];
+  expect(resolveSpeakerColors(scenes, { Guest: "gold" })).toEqual({
+    Host: "#e63946",
+    Guest: "gold",
+    Third: "#2a9d8f",
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Scene Speech
+ *
+ * What a scene says and with which voices: a single narration (scene or
+ * renderConfig voice) or a dialogue, where each line is synthesized on its
+ * own and the lines are joined with short pauses. Speech markup (pauses,
+ * emphasis, respellings) splits the text further. The speaker turns are kept
+ * so the captions can be colored per speaker.
+ */
+
+import type { Caption, RenderConfig, SceneInput } from "../../types/shorts";
+import type { PronunciationLexicon } from "./PronunciationLexicon";
+import type { TtsProvider } from "./TtsProvider";
+import type { TtsRegistry } from "./TtsRegistry";
+import { parseSpeechMarkup, type SpeechPart } from "./speechMarkup";
+import { joinWav, toArrayBuffer, type WavPart } from "./wav";
+
+const DEFAULT_DIALOGUE_GAP_MS = 300;
+
+// highlight colors for speakers without one in renderConfig.speakerColors
+const SPEAKER_PALETTE = ["#e63946", "#2a9d8f", "#f4a261", "#7b2cbf", "#1d4ed8", "#ff006e"];
+
+export interface SpeechSegment {
+  parts: SpeechPart[];
+  /** Text without markup, for the captions */
+  displayText: string;
+  voice: string;
+  speaker?: string;
+}
+
+export interface SceneSpeech {
+  provider: TtsProvider;
+  segments: SpeechSegment[];
+  /** What the captions should read, in the original spelling */
+  displayText: string;
+  voiceSpeed: number;
+  gapMs: number;
+  /** Requested language, undefined means English */
+  language?: string;
+}
+
+export interface SpeakerTurn {
+  speaker: string;
+  startMs: number;
+  endMs: number;
+}
+
+export interface SynthesizedSpeech {
+  /** WAV file, before the speed change */
+  audio: ArrayBuffer;
+  audioLength: number;
+  /** Speaker of each stretch of the audio, empty for narration */
+  turns: SpeakerTurn[];
+}
+
+/**
+ * Markup parsed, with the lexicon applied to the spoken parts only
+ */
+function parseSegment(
+  text: string,
+  provider: TtsProvider,
+  voice: string,
+  language: string | undefined,
+  lexicon?: PronunciationLexicon,
+): Pick<SpeechSegment, "parts" | "displayText" | "voice"> {
+  const { parts, displayText } = parseSpeechMarkup(text);
+  if (!lexicon) {
+    return { parts, displayText, voice };
+  }
+  const known = provider.listVoices().find((candidate) => candidate.id === voice) ?? { id: voice, language: "" };
+  // multilingual voices speak the requested language, not the one they're listed under
+  const voiceInfo = language ? { ...known, language } : known;
+  return {
+    parts: parts.map((part) => (part.type === "speech" ? { ...part, text: lexicon.apply(part.text, voiceInfo) } : part)),
+    displayText,
+    voice,
+  };
+}
+
+/**
+ * Resolve the provider, voices and markup of a scene. Throws on unknown
+ * voices or voices that don't speak the scene language, like
+ * TtsRegistry.resolve, and on malformed markup. All lines use the same
+ * provider, so their audio can be joined without resampling.
+ */
+export function resolveSceneSpeech(
+  tts: TtsRegistry,
+  scene: SceneInput,
+  config: RenderConfig,
+  lexicon?: PronunciationLexicon,
+): SceneSpeech {
+  const language = scene.language ?? config.language;
+  // a scene in its own language picks its own voice rather than the renderConfig one
+  const sceneVoice = scene.voice ?? (scene.language ? undefined : config.voice);
+  const { provider, voice } = tts.resolve(config.ttsProvider, sceneVoice, language);
+  const segments: SpeechSegment[] = scene.dialogue
+    ? scene.dialogue.map((line) => ({
+        ...parseSegment(
+          line.text,
+          provider,
+          line.voice ? tts.resolve(provider.name, line.voice, language).voice : voice,
+          language,
+          lexicon,
+        ),
+        speaker: line.speaker,
+      }))
+    : [parseSegment(scene.text, provider, voice, language, lexicon)];
+  if (segments.some((segment) => !segment.parts.some((part) => part.type === "speech"))) {
+    throw new Error("Scene text has nothing to speak besides markup");
+  }
+
+  return {
+    provider,
+    segments,
+    displayText: segments.map((segment) => segment.displayText).join(" "),
+    voiceSpeed: scene.voiceSpeed ?? config.voiceSpeed ?? 1.0,
+    gapMs: scene.dialogueGapMs ?? DEFAULT_DIALOGUE_GAP_MS,
+    language,
+  };
+}
+
+export async function synthesizeSceneSpeech(
+  speech: SceneSpeech,
+  signal?: AbortSignal,
+): Promise<SynthesizedSpeech> {
+  const [first] = speech.segments;
+  if (speech.segments.length === 1 && !first.speaker && first.parts.length === 1 && first.parts[0].type === "speech") {
+    return { ...(await speech.provider.generate(first.parts[0].text, first.voice, signal)), turns: [] };
+  }
+
+  const wavParts: WavPart[] = [];
+  const turns: SpeakerTurn[] = [];
+  let offsetMs = 0;
+  for (const [index, segment] of speech.segments.entries()) {
+    if (index > 0) {
+      wavParts.push({ silenceMs: speech.gapMs });
+      offsetMs += speech.gapMs;
+    }
+    const startMs = offsetMs;
+    for (const part of segment.parts) {
+      if (part.type === "pause") {
+        wavParts.push({ silenceMs: part.ms });
+        offsetMs += part.ms;
+      } else {
+        const { audio, audioLength } = await speech.provider.generate(part.text, segment.voice, signal);
+        wavParts.push(Buffer.from(audio));
+        offsetMs += audioLength * 1000;
+      }
+    }
+    if (segment.speaker !== undefined) {
+      turns.push({ speaker: segment.speaker, startMs, endMs: offsetMs });
+    }
+  }
+
+  return {
+    audio: toArrayBuffer(joinWav(wavParts)),
+    audioLength: offsetMs / 1000,
+    turns,
+  };
+}
+
+/**
+ * Tag each caption word with the speaker whose turn contains its middle.
+ * Turn times must be on the same scale as the captions (after speed change).
+ */
+export function assignSpeakers(captions: Caption[], turns: SpeakerTurn[]): Caption[] {
+  if (turns.length === 0) {
+    return captions;
+  }
+  return captions.map((caption) => {
+    const middle = (caption.startMs + caption.endMs) / 2;
+    const turn = turns.filter((candidate) => candidate.startMs <= middle).pop() ?? turns[0];
+    return { ...caption, speaker: turn.speaker };
+  });
+}
+
+/**
+ * Highlight color of every speaker: configured colors first, the palette for
+ * the rest in order of appearance
+ */
+export function resolveSpeakerColors(
+  scenes: SceneInput[],
+  configured: Record<string, string> = {},
+): Record<string, string> {
+  const colors: Record<string, string> = {};
+  let paletteIndex = 0;
+  for (const line of scenes.flatMap((scene) => scene.dialogue ?? [])) {
+    if (!colors[line.speaker]) {
+      colors[line.speaker] =
+        configured[line.speaker] ?? SPEAKER_PALETTE[paletteIndex++ % SPEAKER_PALETTE.length];
+    }
+  }
+  return colors;
+}
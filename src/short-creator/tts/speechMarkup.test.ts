@@ -0,0 +1,31 @@
+import { test, expect } from "vitest";
+
+import { parseSpeechMarkup } from "./speechMarkup";
+
+test("splits pauses, emphasis and respellings out of the text", () => {
+  const parsed = parseSpeechMarkup(
+    "The door was open. [pause 800ms] Inside, *nobody* waited.[pause 1.5s][pause 200] The {GIF|jif} loaded.",
+  );
+
+  expect(parsed.parts).toEqual([
+    { type: "speech", text: "The door was open." },
+    { type: "pause", ms: 800 },
+    { type: "speech", text: "Inside," },
+    { type: "pause", ms: 150 },
+    { type: "speech", text: "nobody" },
+    { type: "pause", ms: 150 },
+    { type: "speech", text: "waited." },
+    { type: "pause", ms: 1700 },
+    { type: "speech", text: "The jif loaded." },
+  ]);
+  expect(parsed.displayText).toBe("The door was open. Inside, nobody waited. The GIF loaded.");
+});
+
+test("leaves plain text alone and rejects bad pauses", () => {
+  expect(parseSpeechMarkup("Just a  sentence.")).toEqual({
+    parts: [{ type: "speech", text: "Just a sentence." }],
+    displayText: "Just a sentence.",
+  });
+  expect(() => parseSpeechMarkup("Wait [pause] here")).toThrow("Pause without a duration");
+  expect(() => parseSpeechMarkup("Wait [pause 20s] here")).toThrow("longer than 10s");
+});
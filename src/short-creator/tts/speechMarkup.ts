@@ -0,0 +1,104 @@
+/**
+ * Speech Markup
+ *
+ * Lightweight markup in scene text:
+ *   [pause 800ms] / [pause 1.5s]  silence at that point
+ *   *words*                       emphasis: spoken as a separate phrase, set
+ *                                 off by short pauses (the TTS engines have
+ *                                 no stress control)
+ *   {word|phonetic}               shown as "word" in captions, spoken as
+ *                                 "phonetic" (a respelling like "jif")
+ *
+ * The parser splits the text into speech and pause parts for synthesis and
+ * gives back the plain display text for the captions.
+ */
+
+const MAX_PAUSE_MS = 10000;
+const EMPHASIS_PAUSE_MS = 150;
+
+const MARKUP_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\s*\]|\*([^*]+)\*|\{([^{}|]+)\|([^{}|]+)\}/gi;
+
+export type SpeechPart = { type: "speech"; text: string } | { type: "pause"; ms: number };
+
+export interface ParsedSpeech {
+  parts: SpeechPart[];
+  /** Text without markup, in the original spelling - what captions show */
+  displayText: string;
+}
+
+type RawPart = SpeechPart | { type: "emphasis"; text: string };
+
+function collapseSpaces(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function parsePause(amount: string | undefined, unit: string | undefined, markup: string): number {
+  if (amount === undefined) {
+    throw new Error(`Pause without a duration: "${markup}". Use e.g. [pause 800ms] or [pause 1.5s]`);
+  }
+  const ms = unit?.toLowerCase() === "s" ? parseFloat(amount) * 1000 : parseFloat(amount);
+  if (ms > MAX_PAUSE_MS) {
+    throw new Error(`Pause "${markup}" is longer than ${MAX_PAUSE_MS / 1000}s`);
+  }
+  return ms;
+}
+
+/**
+ * Split marked-up text into speech and pause parts. Throws on malformed pauses.
+ */
+export function parseSpeechMarkup(text: string): ParsedSpeech {
+  const raw: RawPart[] = [];
+  let speech = "";
+  let display = "";
+  const flushSpeech = () => {
+    if (collapseSpaces(speech)) {
+      raw.push({ type: "speech", text: collapseSpaces(speech) });
+    }
+    speech = "";
+  };
+
+  let offset = 0;
+  for (const match of text.matchAll(MARKUP_PATTERN)) {
+    const [markup, pauseAmount, pauseUnit, emphasized, word, phonetic] = match;
+    const before = text.slice(offset, match.index);
+    speech += before;
+    display += before;
+    offset = (match.index ?? 0) + markup.length;
+
+    if (emphasized !== undefined) {
+      flushSpeech();
+      raw.push({ type: "emphasis", text: collapseSpaces(emphasized) });
+      display += emphasized;
+    } else if (word !== undefined) {
+      speech += phonetic;
+      display += word;
+    } else {
+      flushSpeech();
+      raw.push({ type: "pause", ms: parsePause(pauseAmount, pauseUnit, markup) });
+    }
+  }
+  speech += text.slice(offset);
+  display += text.slice(offset);
+  flushSpeech();
+
+  // emphasized phrases get a short pause on the sides that touch other speech
+  const parts: SpeechPart[] = [];
+  raw.forEach((part, index) => {
+    const previous = raw[index - 1];
+    if (part.type === "pause") {
+      const last = parts[parts.length - 1];
+      if (last?.type === "pause") {
+        last.ms += part.ms;
+      } else {
+        parts.push({ ...part });
+      }
+      return;
+    }
+    if (previous && previous.type !== "pause" && (part.type === "emphasis" || previous.type === "emphasis")) {
+      parts.push({ type: "pause", ms: EMPHASIS_PAUSE_MS });
+    }
+    parts.push({ type: "speech", text: part.text });
+  });
+
+  return { parts, displayText: collapseSpaces(display) };
+}
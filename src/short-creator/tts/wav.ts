@@ -0,0 +1,119 @@
+/**
+ * WAV helpers shared by the TTS providers
+ */
+
+export interface WavFormat {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+}
+
+/**
+ * Split a WAV file into its format and sample data. Headers aren't always
+ * 44 bytes (ffmpeg adds a LIST chunk), so the chunks are walked. Streaming
+ * servers often leave the data chunk size unset (0 or 0xFFFFFFFF), so the
+ * real byte count is used when the header disagrees with it.
+ */
+export function readWav(wav: Buffer): { format: WavFormat; data: Buffer } {
+  if (wav.length < 12 || wav.toString("ascii", 0, 4) !== "RIFF" || wav.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Audio is not a WAV file");
+  }
+
+  let format: WavFormat | undefined;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString("ascii", offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+    if (chunkId === "fmt ") {
+      format = {
+        audioFormat: wav.readUInt16LE(chunkStart),
+        channels: wav.readUInt16LE(chunkStart + 2),
+        sampleRate: wav.readUInt32LE(chunkStart + 4),
+        byteRate: wav.readUInt32LE(chunkStart + 8),
+        blockAlign: wav.readUInt16LE(chunkStart + 12),
+        bitsPerSample: wav.readUInt16LE(chunkStart + 14),
+      };
+    } else if (chunkId === "data") {
+      if (!format) {
+        throw new Error("WAV data chunk found before the fmt chunk");
+      }
+      const available = wav.length - chunkStart;
+      const dataSize = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+      return { format, data: wav.subarray(chunkStart, chunkStart + dataSize) };
+    }
+    // chunks are padded to an even size
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
+
+/**
+ * Duration of a PCM WAV file in seconds
+ */
+export function getWavDuration(wav: Buffer): number {
+  const { format, data } = readWav(wav);
+  return data.length / format.byteRate;
+}
+
+export type WavPart = Buffer | { silenceMs: number };
+
+/**
+ * Concatenate WAV files of the same format, with silence where a part asks
+ * for it. The result has a plain 44-byte header.
+ */
+export function joinWav(wavParts: WavPart[]): Buffer {
+  const parts = wavParts.filter((part): part is Buffer => Buffer.isBuffer(part)).map(readWav);
+  if (parts.length === 0) {
+    throw new Error("Cannot join WAV files without any audio");
+  }
+  const { format } = parts[0];
+  for (const part of parts) {
+    if (
+      part.format.audioFormat !== format.audioFormat ||
+      part.format.channels !== format.channels ||
+      part.format.sampleRate !== format.sampleRate ||
+      part.format.bitsPerSample !== format.bitsPerSample
+    ) {
+      throw new Error(
+        `Cannot join WAV files of different formats (${format.sampleRate} Hz/${format.channels} ch and ${part.format.sampleRate} Hz/${part.format.channels} ch)`,
+      );
+    }
+  }
+
+  let audioIndex = 0;
+  const data = Buffer.concat(
+    wavParts.map((part) =>
+      Buffer.isBuffer(part)
+        ? parts[audioIndex++].data
+        : // whole frames only, so the samples stay aligned
+          Buffer.alloc(Math.round((part.silenceMs / 1000) * format.sampleRate) * format.blockAlign),
+    ),
+  );
+
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format.audioFormat, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.byteRate, 28);
+  header.writeUInt16LE(format.blockAlign, 32);
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Copy a Buffer into a standalone ArrayBuffer (Buffers may share a pool)
+ */
+export function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
@@ -0,0 +1,76 @@
+import { test, expect, beforeEach, afterEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+
+import { WebhookNotifier, signPayload, SIGNATURE_HEADER } from "./WebhookNotifier";
+import type { Config } from "../../config";
+
+type ReceivedRequest = { headers: http.IncomingHttpHeaders; body: string };
+
+let server: http.Server;
+let url: string;
+let received: ReceivedRequest[];
+let responses: number[];
+
+const config = { webhookMaxAttempts: 3, webhookRetryDelayMs: 5 } as Config;
+
+beforeEach(async () => {
+  received = [];
+  responses = [];
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = responses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const payload = {
+  videoId: "video-1",
+  status: "ready" as const,
+  duration: 12.5,
+  downloadUrl: "http://localhost:3123/api/short-video/video-1",
+  timestamp: "2025-01-01T00:00:00.000Z",
+};
+
+test("posts a signed payload", async () => {
+  const notifier = new WebhookNotifier(config);
+
+  await expect(notifier.send({ url, secret: "s3cret" }, payload)).resolves.toBe(true);
+
+  expect(received).toHaveLength(1);
+  expect(JSON.parse(received[0].body)).toEqual(payload);
+  expect(received[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBe(
+    signPayload(received[0].body, "s3cret"),
+  );
+});
+
+test("retries server errors with backoff", async () => {
+  responses = [500, 503];
+  const notifier = new WebhookNotifier(config);
+
+  await expect(notifier.send({ url }, payload)).resolves.toBe(true);
+  expect(received).toHaveLength(3);
+  expect(received[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+});
+
+test("gives up on client errors and after the last attempt", async () => {
+  const notifier = new WebhookNotifier(config);
+
+  responses = [404];
+  await expect(notifier.send({ url }, payload)).resolves.toBe(false);
+  expect(received).toHaveLength(1);
+
+  responses = [500, 500, 500];
+  await expect(notifier.send({ url }, payload)).resolves.toBe(false);
+  expect(received).toHaveLength(4);
+});
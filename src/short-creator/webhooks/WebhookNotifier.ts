@@ -0,0 +1,112 @@
+/**
+ * Webhook Notifier
+ *
+ * Delivers job outcome callbacks to the URL given in renderConfig.webhook.
+ * The JSON body is signed with HMAC-SHA256 when a secret is set, and failed
+ * deliveries (network errors, 429, 5xx) are retried with exponential backoff.
+ */
+
+import crypto from "crypto";
+import { Config } from "../../config";
+import { logger } from "../../logger";
+import type { VideoOutput, VideoStatus } from "../../types/shorts";
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+export interface WebhookTarget {
+  url: string;
+  secret?: string;
+}
+
+export interface WebhookPayload {
+  videoId: string;
+  status: Extract<VideoStatus, "ready" | "failed" | "cancelled">;
+  /** Video duration in seconds (ready only) */
+  duration?: number;
+  downloadUrl?: string;
+  /** One entry per rendered orientation (ready only) */
+  outputs?: VideoOutput[];
+  error?: {
+    message: string;
+    sceneIndex?: number;
+  };
+  timestamp: string;
+}
+
+/**
+ * Signature of a raw request body, sent as `sha256=<hex>`
+ */
+export function signPayload(body: string, secret: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(body).digest("hex");
+  return `sha256=${digest}`;
+}
+
+export class WebhookNotifier {
+  private static readonly REQUEST_TIMEOUT_MS = 10000;
+
+  constructor(private config: Config) {}
+
+  /**
+   * POST the payload, retrying until it is accepted or attempts run out.
+   * Never throws: resolves true when delivered, false when giving up.
+   */
+  async send(target: WebhookTarget, payload: WebhookPayload): Promise<boolean> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (target.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(body, target.secret);
+    }
+
+    const maxAttempts = this.config.webhookMaxAttempts;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        const response = await fetch(target.url, {
+          method: "POST",
+          headers,
+          body,
+          signal: AbortSignal.timeout(WebhookNotifier.REQUEST_TIMEOUT_MS),
+        });
+
+        if (response.ok) {
+          logger.info(
+            { videoId: payload.videoId, status: payload.status, attempt },
+            "Webhook delivered",
+          );
+          return true;
+        }
+
+        // other client errors won't get better by retrying
+        if (response.status !== 429 && response.status < 500) {
+          logger.warn(
+            { videoId: payload.videoId, url: target.url, httpStatus: response.status },
+            "Webhook rejected, not retrying",
+          );
+          return false;
+        }
+
+        logger.warn(
+          { videoId: payload.videoId, url: target.url, httpStatus: response.status, attempt },
+          "Webhook delivery failed",
+        );
+      } catch (error) {
+        logger.warn(
+          { videoId: payload.videoId, url: target.url, error, attempt },
+          "Webhook delivery failed",
+        );
+      }
+
+      if (attempt < maxAttempts) {
+        const delay = this.config.webhookRetryDelayMs * 2 ** (attempt - 1);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    logger.error(
+      { videoId: payload.videoId, url: target.url, attempts: maxAttempts },
+      "Giving up on webhook delivery",
+    );
+    return false;
+  }
+}
@@ -229,8 +229,73 @@ const advancedTextOverlaySchema = z.object({
   }).optional().describe("When to show the overlay (default: full scene)"),
 });
 
+export const dialogueLineSchema = z.object({
+  speaker: z.string().min(1).describe("Speaker name, captions of each speaker get their own color"),
+  voice: z.string().optional().describe("Voice of this line, default is the scene voice"),
+  text: z.string().min(1).describe("What the speaker says, same markup as scene text"),
+});
+
+// BCP 47 language tag: "ru", "es", "pt-BR"
+const languageSchema = z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, "Use a language code like 'ru' or 'pt-BR'");
+
+// Recorded voiceover used instead of TTS
+const narrationSchema = z.union([
+  z.object({
+    type: z.literal("url"),
+    url: z.string().url().describe("HTTP/HTTPS URL of the audio file (mp3, wav, m4a, ...)"),
+  }),
+  z.object({
+    type: z.literal("file"),
+    file: fileUploadSchema.describe("Direct upload of the audio file (base64 or binary)"),
+  }),
+]);
+
 export const sceneInput = z.object({
-  text: z.string().describe("Text to be spoken in the video"),
+  text: z
+    .string()
+    .default("")
+    .describe(
+      "Text to be spoken in the video. Supports markup: [pause 800ms] for silence, *words* for emphasis, {word|phonetic} to show 'word' in captions but pronounce 'phonetic'. Can be left empty when 'dialogue' or 'narration' is set. With 'narration' it is the transcript the captions are aligned to",
+    ),
+
+  // Per-scene speech settings - OPTIONAL, default to renderConfig
+  voice: z
+    .string()
+    .optional()
+    .describe("Voice for this scene, overrides renderConfig.voice (same TTS provider)"),
+  language: languageSchema
+    .optional()
+    .describe(
+      "Language of this scene, overrides renderConfig.language. Without 'voice', a voice for the language is picked instead of renderConfig.voice",
+    ),
+  voiceSpeed: z
+    .number()
+    .min(1.0)
+    .max(1.5)
+    .optional()
+    .describe("Speech speed for this scene, overrides renderConfig.voiceSpeed"),
+
+  // Multi-speaker scene - OPTIONAL, replaces 'text'
+  dialogue: z
+    .array(dialogueLineSchema)
+    .min(1)
+    .optional()
+    .describe(
+      "Lines of a conversation, each synthesized with its own voice and joined in order. Replaces 'text' for the speech",
+    ),
+  dialogueGapMs: z
+    .number()
+    .min(0)
+    .max(5000)
+    .optional()
+    .describe("Silence between dialogue lines in milliseconds, default is 300"),
+
+  // Recorded voiceover - OPTIONAL, replaces TTS
+  narration: narrationSchema
+    .optional()
+    .describe(
+      "Recorded voiceover for this scene, used as is instead of TTS. Captions are transcribed from it, aligned to 'text' when given",
+    ),
 
   // Legacy format (backward compatibility) - OPTIONAL now
   searchTerms: z
@@ -278,9 +343,21 @@ export const sceneInput = z.object({
   {
     message: "Either 'searchTerms' (legacy) or 'media' must be provided",
   },
+).refine(
+  (data) => data.text.trim() || data.dialogue || data.narration,
+  {
+    message: "Either 'text', 'dialogue' or 'narration' must be provided",
+  },
+).refine(
+  (data) => !(data.dialogue && data.narration),
+  {
+    message: "'dialogue' and 'narration' can't be combined",
+  },
 );
 
 export type SceneInput = z.infer<typeof sceneInput>;
+export type DialogueLine = z.infer<typeof dialogueLineSchema>;
+export type Narration = z.infer<typeof narrationSchema>;
 export type MediaSource = z.infer<typeof mediaSourceSchema>;
 export type FileUpload = z.infer<typeof fileUploadSchema>;
 export type BlendEffect = z.infer<typeof blendEffectSchema>;
@@ -339,6 +416,8 @@ export enum VoiceEnum {
 export enum OrientationEnum {
   landscape = "landscape",
   portrait = "portrait",
+  square = "square", // 1:1, 1080x1080
+  feed = "feed", // 4:5, 1080x1350 (Instagram / LinkedIn feed)
 }
 
 export enum MusicVolumeEnum {
@@ -350,6 +429,63 @@ export enum MusicVolumeEnum {
   ultra = "ultra",
 }
 
+// Remotion's accepted CRF range per codec (prores has no CRF)
+const CRF_RANGES = {
+  h264: [1, 51],
+  h265: [0, 51],
+  vp9: [0, 63],
+} as const;
+
+const outputSchema = z
+  .object({
+    codec: z
+      .enum(["h264", "h265", "vp9", "prores"])
+      .optional()
+      .describe("Video codec, default is h264. vp9 is saved as .webm, prores as .mov, h264/h265 as .mp4"),
+    fps: z
+      .union([z.literal(24), z.literal(25), z.literal(30), z.literal(60)])
+      .optional()
+      .describe("Frames per second, default is 25"),
+    scale: z
+      .enum(["720p", "1080p", "4k"])
+      .optional()
+      .describe("Output resolution (short side of the frame), default is 1080p"),
+    crf: z
+      .number()
+      .int()
+      .optional()
+      .describe("Constant rate factor, lower is better quality. h264: 1-51, h265: 0-51, vp9: 0-63. Can't be combined with videoBitrate"),
+    videoBitrate: z
+      .string()
+      .regex(/^\d+(\.\d+)?[kKmM]$/)
+      .optional()
+      .describe("Target video bitrate, e.g. '8M' or '2500k'. Can't be combined with crf"),
+    audioBitrate: z
+      .string()
+      .regex(/^\d+[kK]$/)
+      .optional()
+      .describe("Audio bitrate, e.g. '192k', default is 192k"),
+  })
+  .refine((output) => output.crf === undefined || output.videoBitrate === undefined, {
+    message: "Use either crf or videoBitrate, not both",
+  })
+  .refine(
+    (output) =>
+      output.codec !== "prores" || (output.crf === undefined && output.videoBitrate === undefined),
+    { message: "prores doesn't support crf or videoBitrate" },
+  )
+  .refine(
+    (output) => {
+      if (output.crf === undefined || output.codec === "prores") {
+        return true;
+      }
+      const [min, max] = CRF_RANGES[output.codec ?? "h264"];
+      return output.crf >= min && output.crf <= max;
+    },
+    { message: "crf is out of range for the codec (h264: 1-51, h265: 0-51, vp9: 0-63)" },
+  );
+export type OutputConfig = z.infer<typeof outputSchema>;
+
 export const renderConfig = z.object({
   paddingBack: z
     .number()
@@ -375,14 +511,38 @@ export const renderConfig = z.object({
     .describe(
       "Background color of the caption, a valid css color, default is blue",
     ),
+  ttsProvider: z
+    .string()
+    .optional()
+    .describe("Text to speech provider (kokoro, piper, espeak-ng, openai), default is the server's TTS_PROVIDER. See /api/voices for what is available"),
   voice: z
-    .nativeEnum(VoiceEnum)
+    .string()
+    .optional()
+    .describe("Voice of the TTS provider, e.g. af_heart for kokoro; default is the provider's default voice. See /api/voices"),
+  language: languageSchema
+    .optional()
+    .describe(
+      "Language of the speech and captions, e.g. 'ru', 'es', 'pt-BR'; default is English. Picks a TTS provider and voice for it (unless set) and a multilingual Whisper model",
+    ),
+  speakerColors: z
+    .record(z.string(), z.string())
     .optional()
-    .describe("Voice to be used for the speech, default is af_heart"),
+    .describe(
+      "Caption highlight color of each dialogue speaker, e.g. {\"Host\": \"#e63946\"}. Speakers without a color get one from a built-in palette",
+    ),
   orientation: z
     .nativeEnum(OrientationEnum)
     .optional()
-    .describe("Orientation of the video, default is portrait"),
+    .describe(
+      "Orientation of the video, default is portrait (9:16). landscape is 16:9, square 1:1, feed 4:5",
+    ),
+  orientations: z
+    .array(z.nativeEnum(OrientationEnum))
+    .min(1)
+    .optional()
+    .describe(
+      "Render several orientations from one job; speech, captions and media are generated once. The first one is the primary output. Overrides orientation",
+    ),
   voiceSpeed: z
     .number()
     .min(1.0)
@@ -394,6 +554,37 @@ export const renderConfig = z.object({
     .nativeEnum(MusicVolumeEnum)
     .optional()
     .describe("Volume of the music, default is high"),
+  quality: z
+    .enum(["draft", "final"])
+    .optional()
+    .describe(
+      "Render quality, default is final. 'draft' renders a fast low-resolution preview without effects, which can later be promoted to full quality",
+    ),
+  output: outputSchema
+    .optional()
+    .describe("Output encoding: codec, fps, resolution, quality/bitrate. Defaults to h264 1080p at 25 fps"),
+  thumbnail: z
+    .object({
+      atSeconds: z
+        .number()
+        .min(0)
+        .optional()
+        .describe("Take the thumbnail at this time (seconds) instead of picking the sharpest frame"),
+      title: z.string().optional().describe("Title drawn over the thumbnail"),
+      titleStyle: textOverlaySchema.shape.style.describe("Title styling, same options as text overlays"),
+    })
+    .optional()
+    .describe("Thumbnail options. Every video gets a thumbnail, by default the sharpest frame without a title"),
+  webhook: z
+    .object({
+      url: z.string().url().describe("URL that receives a POST when the video is ready, failed or cancelled"),
+      secret: z
+        .string()
+        .optional()
+        .describe("Shared secret used to sign the payload (HMAC-SHA256, X-Webhook-Signature header)"),
+    })
+    .optional()
+    .describe("Webhook to call when the video finishes, instead of polling the status endpoint"),
 });
 export type RenderConfig = z.infer<typeof renderConfig>;
 
@@ -409,6 +600,8 @@ export type Caption = {
   text: string;
   startMs: number;
   endMs: number;
+  /** Dialogue speaker who says the word */
+  speaker?: string;
 };
 
 export type CaptionLine = {
@@ -420,13 +613,54 @@ export type CaptionPage = {
   lines: CaptionLine[];
 };
 
+export const lexiconEntrySchema = z.object({
+  term: z.string().trim().min(1).describe("Word or phrase as written in the scripts, e.g. 'Nguyen'"),
+  replacement: z.string().trim().min(1).describe("What the TTS should say instead, a respelling like 'win'"),
+  voices: z.array(z.string()).optional().describe("Only apply for these voices"),
+  languages: z
+    .array(z.string())
+    .optional()
+    .describe("Only apply for voices of these languages: 'en' matches every English voice, 'en-GB' only British ones"),
+  caseSensitive: z.boolean().optional().describe("Match the exact case of the term, default is false"),
+});
+export const lexiconSchema = z.object({
+  entries: z.array(lexiconEntrySchema),
+});
+export type LexiconEntry = z.infer<typeof lexiconEntrySchema>;
+
 export const createShortInput = z.object({
   scenes: z.array(sceneInput).describe("Each scene to be created"),
   config: renderConfig.describe("Configuration for rendering the video"),
 });
 export type CreateShortInput = z.infer<typeof createShortInput>;
 
-export type VideoStatus = "processing" | "ready" | "failed";
+export type VideoStatus = "processing" | "ready" | "failed" | "cancelled";
+
+export type VideoOutput = {
+  orientation: OrientationEnum;
+  downloadUrl: string;
+};
+
+export type VideoStatusInfo = {
+  status: VideoStatus;
+  progress?: number;
+  stage?: string;
+  error?: string;
+  /** Every rendered orientation of a ready video */
+  outputs?: VideoOutput[];
+  /** Kept by the retention policy no matter its age */
+  pinned?: boolean;
+};
+
+export type BatchStatusInfo = {
+  batchId: string;
+  createdAt: string;
+  total: number;
+  /** Average progress over all videos, finished ones count as 100 */
+  progress: number;
+  counts: Record<VideoStatus, number>;
+  videos: Array<{ videoId: string } & VideoStatusInfo>;
+};
 
 export type Music = {
   file: string;